@@ -3,6 +3,11 @@ export interface BulutProps {
   projectId: string;
   /** Backend API URL. Defaults to `"https://api.bulut.lu"`. */
   backendBaseUrl?: string;
+  /**
+   * Origins of cross-origin frames (checkout, scheduler…) that load the
+   * `frame-bridge` script; their content joins the agent's page context.
+   */
+  frameOrigins?: string[];
 }
 
 /**
@@ -19,4 +24,30 @@ export interface BulutProps {
  */
 export declare function Bulut(props: BulutProps): JSX.Element;
 
+export interface CustomToolDefinition {
+  /** What the tool does, shown to the agent. */
+  description: string;
+  /** JSON schema of the arguments object passed to `handler`. */
+  argsSchema?: Record<string, unknown>;
+  /** Runs the action. Non-string return values are sent back as JSON. */
+  handler: (args: Record<string, unknown>) => unknown | Promise<unknown>;
+}
+
+/**
+ * Expose a host application action to the agent.
+ *
+ * @example
+ * ```ts
+ * registerTool('addToCart', {
+ *   description: 'Add a product to the cart',
+ *   argsSchema: { type: 'object', properties: { sku: { type: 'string' } }, required: ['sku'] },
+ *   handler: async ({ sku }) => cart.add(String(sku)),
+ * });
+ * ```
+ */
+export declare function registerTool(name: string, definition: CustomToolDefinition): void;
+
+/** Remove a tool added with `registerTool`. Returns `false` if it was not registered. */
+export declare function unregisterTool(name: string): boolean;
+
 export default Bulut;
@@ -0,0 +1,139 @@
+// @vitest-environment jsdom
+import { beforeAll, describe, expect, it, vi } from "vitest";
+import formsLab from "../../forms-lab.html?raw";
+import buttonsLab from "../../buttons-lab.html?raw";
+import { computeAccessibleDescription, computeAccessibleName, describeElement } from "./context";
+
+beforeAll(() => {
+  // jsdom does not implement pseudo-element styles and logs on every call.
+  const getComputedStyle = window.getComputedStyle.bind(window);
+  vi.spyOn(window, "getComputedStyle").mockImplementation((element) => getComputedStyle(element));
+});
+
+const render = (html: string) => {
+  document.documentElement.innerHTML = html;
+};
+
+const query = (selector: string): Element => {
+  const element = document.querySelector(selector);
+  if (!element) throw new Error(`missing ${selector}`);
+  return element;
+};
+
+const nameOf = (selector: string) => computeAccessibleName(query(selector));
+
+describe("computeAccessibleName on forms-lab", () => {
+  it("names fields from wrapping labels without their own value", () => {
+    render(formsLab);
+    const username = query("input[name='username']") as HTMLInputElement;
+    username.value = "ayse";
+
+    expect(computeAccessibleName(username)).toBe("Username");
+    expect(nameOf("select[name='security_question']")).toBe("Security Question");
+    expect(nameOf("textarea[name='bio']")).toBe("Bio");
+    expect(nameOf("input[name='mfa_sms']")).toBe("SMS MFA");
+    expect(nameOf("input[name='voice_profile'][value='warm']")).toBe("Warm");
+  });
+
+  it("names fieldsets from their legend", () => {
+    render(formsLab);
+    const legends = Array.from(document.querySelectorAll("fieldset")).map(computeAccessibleName);
+    expect(legends).toEqual(expect.arrayContaining(["Authentication", "Voice Output", "Browser Matrix"]));
+  });
+
+  it("prefers the label over the placeholder", () => {
+    render(formsLab);
+    expect(nameOf("input[name='expiry']")).toBe("Expiry");
+    expect(describeElement(query("input[name='expiry']"))).toBe('Input[text]: "text Expiry"');
+  });
+});
+
+describe("computeAccessibleName on buttons-lab", () => {
+  it("names landmarks, buttons and form controls", () => {
+    render(buttonsLab);
+    expect(nameOf("nav")).toBe("Primary");
+    expect(nameOf("button[type='submit']")).toBe("Dispatch");
+    expect(nameOf("button[aria-pressed='true']")).toBe("Form Label Repair");
+    expect(nameOf("select[name='group']")).toBe("Command Group");
+    expect(nameOf("input[name='target']")).toBe("Target");
+    expect(nameOf("input[value='dry_run']")).toBe("Dry Run");
+  });
+
+  it("labels selects by their label rather than their options", () => {
+    render(buttonsLab);
+    expect(describeElement(query("select[name='group']"))).toMatch(/^Select: "select Command Group val="agent"/);
+  });
+});
+
+describe("computeAccessibleName precedence", () => {
+  it("uses aria-labelledby over aria-label and content", () => {
+    render(`<body>
+      <span id="a">Delete</span><span id="b">invoice 42</span>
+      <button aria-labelledby="a b" aria-label="ignored">X</button>
+    </body>`);
+    expect(nameOf("button")).toBe("Delete invoice 42");
+  });
+
+  it("reads hidden nodes only when referenced", () => {
+    render(`<body>
+      <span id="hint" hidden>Search the catalog</span>
+      <input aria-labelledby="hint" />
+      <button>Go <span aria-hidden="true">→</span></button>
+    </body>`);
+    expect(nameOf("input")).toBe("Search the catalog");
+    expect(nameOf("button")).toBe("Go");
+  });
+
+  it("prefers aria-label over content and reads alt on image buttons", () => {
+    render(`<body>
+      <a href="/cart" aria-label="Cart">🛒 3</a>
+      <input type="image" src="go.png" alt="Search" />
+      <button><img src="x.svg" alt="Close dialog" /></button>
+      <input type="submit" />
+    </body>`);
+    expect(nameOf("a")).toBe("Cart");
+    expect(nameOf("input[type='image']")).toBe("Search");
+    expect(nameOf("button")).toBe("Close dialog");
+    expect(nameOf("input[type='submit']")).toBe("Submit");
+  });
+
+  it("embeds the value of controls inside another element's label", () => {
+    render(`<body>
+      <label for="qty">Send <select><option>5</option><option selected>10</option></select> reminders</label>
+      <input id="qty" type="checkbox" />
+    </body>`);
+    expect(nameOf("#qty")).toBe("Send 10 reminders");
+  });
+
+  it("falls back to title, then placeholder", () => {
+    render(`<body>
+      <input title="Postal code" placeholder="34000" />
+      <input placeholder="Search" />
+      <div role="button" title="More"></div>
+    </body>`);
+    expect(nameOf("input[title]")).toBe("Postal code");
+    expect(nameOf("input:not([title])")).toBe("Search");
+    expect(nameOf("[role='button']")).toBe("More");
+  });
+
+  it("survives aria-labelledby cycles", () => {
+    render(`<body><div id="a" role="button" aria-labelledby="b">A</div><div id="b" aria-labelledby="a">B</div></body>`);
+    expect(nameOf("#a")).toBe("B");
+  });
+});
+
+describe("computeAccessibleDescription", () => {
+  it("reads aria-describedby, then aria-description, then an unused title", () => {
+    render(`<body>
+      <p id="rules">At least 8 characters.</p>
+      <input id="pw" aria-label="Password" aria-describedby="rules" title="ignored" />
+      <button aria-description="Opens in a new tab">Docs</button>
+      <button title="Refresh the list">Refresh</button>
+      <button title="Print"></button>
+    </body>`);
+    expect(computeAccessibleDescription(query("#pw"))).toBe("At least 8 characters.");
+    expect(computeAccessibleDescription(query("[aria-description]"))).toBe("Opens in a new tab");
+    expect(computeAccessibleDescription(query("button[title='Refresh the list']"))).toBe("Refresh the list");
+    expect(computeAccessibleDescription(query("button[title='Print']"))).toBe("");
+  });
+});
@@ -0,0 +1,87 @@
+import { describe, expect, it } from "vitest";
+import {
+  BRIDGE_PROTOCOL_VERSION,
+  createEnvelope,
+  isAllowedOrigin,
+  localizeFrameCall,
+  parseEnvelope,
+  parseFrameScopedId,
+  scopeElementReferences,
+} from "./bridge";
+import type { ToolCallWithId } from "./tools/types";
+
+const call = (fields: Record<string, unknown>) =>
+  ({ call_id: "c1", tool: "interact", action: "click", ...fields }) as unknown as ToolCallWithId;
+
+describe("parseEnvelope", () => {
+  it("round-trips messages of this protocol version", () => {
+    const snapshot = { url: "https://pay.example.com/", title: "Pay", headings: [], links: [], interactables: ["[3] Button: \"Pay\""] };
+    expect(parseEnvelope(createEnvelope({ kind: "hello" }))).toEqual({ kind: "hello" });
+    expect(parseEnvelope(createEnvelope({ kind: "discover" }))).toEqual({ kind: "discover" });
+    expect(parseEnvelope(createEnvelope({ kind: "context", snapshot }))).toEqual({ kind: "context", snapshot });
+    expect(parseEnvelope(createEnvelope({ kind: "result", requestId: "r1", result: "ok" }))).toEqual({
+      kind: "result",
+      requestId: "r1",
+      result: "ok",
+    });
+  });
+
+  it("drops foreign, other-version and malformed envelopes", () => {
+    const hello = createEnvelope({ kind: "hello" });
+    expect(parseEnvelope({ ...hello, protocol: "other" })).toBeNull();
+    expect(parseEnvelope({ ...hello, version: BRIDGE_PROTOCOL_VERSION + 1 })).toBeNull();
+    expect(parseEnvelope({ ...hello, message: { kind: "context", snapshot: { url: 1 } } })).toBeNull();
+    expect(parseEnvelope({ ...hello, message: { kind: "execute", requestId: "r1", call: {} } })).toBeNull();
+    expect(parseEnvelope("bulut-frame-bridge")).toBeNull();
+  });
+});
+
+describe("isAllowedOrigin", () => {
+  it("matches exact origins only", () => {
+    const allowlist = ["https://pay.example.com/checkout"];
+    expect(isAllowedOrigin("https://pay.example.com", allowlist)).toBe(true);
+    expect(isAllowedOrigin("http://pay.example.com", allowlist)).toBe(false);
+    expect(isAllowedOrigin("https://evil.pay.example.com", allowlist)).toBe(false);
+    expect(isAllowedOrigin("null", ["null"])).toBe(false);
+  });
+});
+
+describe("frame-scoped IDs", () => {
+  it("parses and scopes element references", () => {
+    expect(parseFrameScopedId("f2:14")).toEqual({ frame: 2, id: 14 });
+    expect(parseFrameScopedId(14)).toBeNull();
+    expect(parseFrameScopedId("14")).toBeNull();
+    expect(scopeElementReferences('- [4] Input[text]: "Card"\n- [12] Button: "Pay"', 1)).toBe(
+      '- [f1:4] Input[text]: "Card"\n- [f1:12] Button: "Pay"',
+    );
+  });
+
+  it("leaves bracketed numbers inside labels and text alone", () => {
+    expect(scopeElementReferences('- [4] Link: "Dipnot [1]"\n- [5] Text: "Kaynak [2] ve [3] arasında"', 1)).toBe(
+      '- [f1:4] Link: "Dipnot [1]"\n- [f1:5] Text: "Kaynak [2] ve [3] arasında"',
+    );
+    expect(scopeElementReferences('- [7] Ürün: Kalem [1] ve kapak | İşlem: Sil [8] Düzenle [9]', 1)).toBe(
+      '- [f1:7] Ürün: Kalem [1] ve kapak | İşlem: Sil [f1:8] Düzenle [f1:9]',
+    );
+    const outcome = JSON.stringify({ target: '[3] Button: "[1] Not"', matches: ['- [6] Text: "[2]"'], page_context: "- [7] Link\n- [8] Button" });
+    expect(JSON.parse(scopeElementReferences(outcome, 2))).toEqual({
+      target: '[f2:3] Button: "[1] Not"',
+      matches: ['- [f2:6] Text: "[2]"'],
+      page_context: "- [f2:7] Link\n- [f2:8] Button",
+    });
+  });
+
+  it("localizes calls aimed at a single frame", () => {
+    expect(localizeFrameCall(call({ id: "f1:12" }))).toEqual({ frame: 1, call: call({ id: 12 }) });
+    expect(localizeFrameCall(call({ id: "f1:12", container: "f1:3" }))).toEqual({
+      frame: 1,
+      call: call({ id: 12, container: 3 }),
+    });
+  });
+
+  it("leaves parent and mixed calls alone", () => {
+    expect(localizeFrameCall(call({ id: 12 }))).toBeNull();
+    expect(localizeFrameCall(call({ id: "f1:12", container: "f2:3" }))).toBeNull();
+    expect(localizeFrameCall(call({ id: "f1:12", container: 3 }))).toBeNull();
+  });
+});
@@ -0,0 +1,112 @@
+import { getPageContext, collectHeadings } from "../context";
+import { executeSingleToolCall } from "../tools/executors";
+import {
+  FRAME_CONTEXT_DEBOUNCE_MS,
+  createEnvelope,
+  isAllowedOrigin,
+  normalizeOrigin,
+  parseEnvelope,
+  type BridgeMessage,
+  type FrameSnapshot,
+} from "./protocol";
+
+/**
+ * Frame side of the bridge: scans this document with the regular scanner,
+ * reports it to the parent widget and runs the tool calls it forwards.
+ */
+
+export interface FrameBridgeChildOptions {
+  /** Origins of parent pages allowed to read and drive this frame. */
+  parentOrigins: string[];
+}
+
+let allowedOrigins: string[] = [];
+/** Origin of the parent that answered; set once it talks to us. */
+let parentOrigin: string | null = null;
+let messageListener: ((event: MessageEvent) => void) | null = null;
+let observer: MutationObserver | null = null;
+let pushTimer: ReturnType<typeof setTimeout> | null = null;
+
+const postToParent = (message: BridgeMessage, origin: string | null = parentOrigin) => {
+  if (origin) window.parent.postMessage(createEnvelope(message), origin);
+};
+
+export const takeFrameSnapshot = (): FrameSnapshot => {
+  const context = getPageContext(true);
+  return {
+    url: window.location.href,
+    title: document.title,
+    headings: collectHeadings(),
+    links: context.links,
+    interactables: context.interactables,
+  };
+};
+
+const pushSnapshot = () => {
+  if (pushTimer) clearTimeout(pushTimer);
+  pushTimer = null;
+  postToParent({ kind: "context", snapshot: takeFrameSnapshot() });
+};
+
+const schedulePush = () => {
+  if (!parentOrigin) return;
+  if (pushTimer) clearTimeout(pushTimer);
+  pushTimer = setTimeout(pushSnapshot, FRAME_CONTEXT_DEBOUNCE_MS);
+};
+
+const handleMessage = async (event: MessageEvent) => {
+  if (event.source !== window.parent || !isAllowedOrigin(event.origin, allowedOrigins)) return;
+  const message = parseEnvelope(event.data);
+  if (!message) return;
+  parentOrigin = event.origin;
+
+  if (message.kind === "discover") {
+    postToParent({ kind: "hello" });
+    return;
+  }
+  if (message.kind === "requestContext") {
+    pushSnapshot();
+    return;
+  }
+  if (message.kind === "execute") {
+    const { result } = await executeSingleToolCall(message.call);
+    // The snapshot goes first so the parent's IDs are current when the result lands.
+    pushSnapshot();
+    postToParent({ kind: "result", requestId: message.requestId, result });
+  }
+};
+
+/**
+ * Announce this frame to every allowed parent origin. `postMessage` drops
+ * messages whose target origin does not match, so only a real allowed
+ * parent hears it.
+ */
+export const startFrameBridgeChild = ({ parentOrigins }: FrameBridgeChildOptions): void => {
+  if (typeof window === "undefined" || window.parent === window) return;
+  allowedOrigins = parentOrigins.flatMap((origin) => {
+    const normalized = normalizeOrigin(origin);
+    if (!normalized) console.warn(`Bulut frame bridge: ignoring invalid origin ${origin}`);
+    return normalized ? [normalized] : [];
+  });
+
+  if (!messageListener) {
+    messageListener = (event) => { void handleMessage(event); };
+    window.addEventListener("message", messageListener);
+  }
+  if (!observer && document.body) {
+    observer = new MutationObserver(schedulePush);
+    observer.observe(document.body, { childList: true, subtree: true, characterData: true, attributes: true });
+  }
+  for (const origin of allowedOrigins) postToParent({ kind: "hello" }, origin);
+};
+
+export const stopFrameBridgeChild = (): void => {
+  if (messageListener) window.removeEventListener("message", messageListener);
+  messageListener = null;
+  observer?.disconnect();
+  observer = null;
+  if (pushTimer) clearTimeout(pushTimer);
+  pushTimer = null;
+  parentOrigin = null;
+  allowedOrigins = [];
+};
@@ -0,0 +1,20 @@
+// Re-export barrel for bridge/ sub-modules
+export {
+  BRIDGE_PROTOCOL,
+  BRIDGE_PROTOCOL_VERSION,
+  FRAME_RESPONSE_TIMEOUT_MS,
+  FRAME_CONTEXT_DEBOUNCE_MS,
+  createEnvelope,
+  parseEnvelope,
+  normalizeOrigin,
+  isAllowedOrigin,
+  formatFrameScopedId,
+  parseFrameScopedId,
+  scopeElementReferences,
+  localizeFrameCall,
+} from "./protocol";
+export type { BridgeEnvelope, BridgeMessage, FrameSnapshot, FrameScopedId } from "./protocol";
+export { startFrameBridge, stopFrameBridge, getFrameSnapshots, executeInFrame } from "./parent";
+export type { FrameBridgeOptions, FrameCallResponse } from "./parent";
+export { startFrameBridgeChild, stopFrameBridgeChild, takeFrameSnapshot } from "./child";
+export type { FrameBridgeChildOptions } from "./child";
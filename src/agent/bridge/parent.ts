@@ -0,0 +1,167 @@
+import type { ToolCallWithId } from "../tools/types";
+import {
+  FRAME_RESPONSE_TIMEOUT_MS,
+  createEnvelope,
+  isAllowedOrigin,
+  normalizeOrigin,
+  parseEnvelope,
+  type BridgeMessage,
+  type FrameSnapshot,
+} from "./protocol";
+
+/**
+ * Parent side of the frame bridge: tracks the cross-origin frames running
+ * the companion script, keeps their latest snapshots for the page context
+ * and forwards tool calls to them.
+ */
+
+export interface FrameBridgeOptions {
+  /** Origins whose frames may join, e.g. `https://checkout.example.com`. */
+  frameOrigins: string[];
+}
+
+export type FrameCallResponse =
+  | { status: "ok"; result: string }
+  /** The frame loaded a new document before answering (the call navigated it). */
+  | { status: "reloaded" }
+  | { status: "unavailable" }
+  | { status: "timeout" };
+
+interface ConnectedFrame {
+  index: number;
+  source: Window;
+  origin: string;
+  snapshot: FrameSnapshot | null;
+}
+
+interface PendingCall {
+  frame: number;
+  resolve: (response: FrameCallResponse) => void;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+const frames = new Map<number, ConnectedFrame>();
+const pendingCalls = new Map<string, PendingCall>();
+let allowedOrigins: string[] = [];
+let messageListener: ((event: MessageEvent) => void) | null = null;
+let nextFrameIndex = 1;
+let nextRequestId = 1;
+
+const post = (frame: ConnectedFrame, message: BridgeMessage) => {
+  frame.source.postMessage(createEnvelope(message), frame.origin);
+};
+
+const isWindow = (source: MessageEventSource | null): source is Window =>
+  source !== null && typeof (source as Window).closed === "boolean";
+
+const findFrame = (source: Window): ConnectedFrame | undefined =>
+  Array.from(frames.values()).find((frame) => frame.source === source);
+
+const settlePending = (requestId: string, response: FrameCallResponse) => {
+  const pending = pendingCalls.get(requestId);
+  if (!pending) return;
+  clearTimeout(pending.timer);
+  pendingCalls.delete(requestId);
+  pending.resolve(response);
+};
+
+/** Frames whose window is gone (iframe removed) are dropped with their calls. */
+const pruneClosedFrames = () => {
+  for (const frame of frames.values()) {
+    if (!frame.source.closed) continue;
+    frames.delete(frame.index);
+    for (const [requestId, pending] of pendingCalls) {
+      if (pending.frame === frame.index) settlePending(requestId, { status: "unavailable" });
+    }
+  }
+};
+
+const handleMessage = (event: MessageEvent) => {
+  if (!isAllowedOrigin(event.origin, allowedOrigins) || !isWindow(event.source)) return;
+  const message = parseEnvelope(event.data);
+  if (!message) return;
+
+  let frame = findFrame(event.source);
+  if (message.kind === "hello") {
+    if (frame) {
+      // Same frame, new document: element IDs from before are meaningless.
+      frame.snapshot = null;
+      frame.origin = event.origin;
+      for (const [requestId, pending] of pendingCalls) {
+        if (pending.frame === frame.index) settlePending(requestId, { status: "reloaded" });
+      }
+    } else {
+      frame = { index: nextFrameIndex++, source: event.source, origin: event.origin, snapshot: null };
+      frames.set(frame.index, frame);
+      console.info(`[Autic] frame bridge connected f${frame.index} origin=${event.origin}`);
+    }
+    post(frame, { kind: "requestContext" });
+    return;
+  }
+
+  // Anything else must come from a frame that said hello.
+  if (!frame || frame.origin !== event.origin) return;
+  if (message.kind === "context") {
+    frame.snapshot = message.snapshot;
+  } else if (message.kind === "result" && pendingCalls.get(message.requestId)?.frame === frame.index) {
+    settlePending(message.requestId, { status: "ok", result: message.result });
+  }
+};
+
+/**
+ * Frames that loaded before the widget announced themselves to nobody; ask
+ * every frame not yet connected to say hello. As with the child's hello,
+ * only frames on an allowed origin receive it.
+ */
+const discoverFrames = () => {
+  for (let i = 0; i < window.frames.length; i += 1) {
+    const target = window.frames[i];
+    if (findFrame(target)) continue;
+    for (const origin of allowedOrigins) target.postMessage(createEnvelope({ kind: "discover" }), origin);
+  }
+};
+
+/** Start accepting frames from `frameOrigins`. Calling again replaces the allowlist. */
+export const startFrameBridge = ({ frameOrigins }: FrameBridgeOptions): void => {
+  if (typeof window === "undefined") return;
+  allowedOrigins = frameOrigins.flatMap((origin) => {
+    const normalized = normalizeOrigin(origin);
+    if (!normalized) console.warn(`Bulut frame bridge: ignoring invalid origin ${origin}`);
+    return normalized ? [normalized] : [];
+  });
+  if (!messageListener) {
+    messageListener = handleMessage;
+    window.addEventListener("message", messageListener);
+  }
+  discoverFrames();
+};
+
+export const stopFrameBridge = (): void => {
+  if (messageListener) window.removeEventListener("message", messageListener);
+  messageListener = null;
+  allowedOrigins = [];
+  for (const requestId of Array.from(pendingCalls.keys())) settlePending(requestId, { status: "unavailable" });
+  frames.clear();
+};
+
+/** Latest snapshot of every connected frame, by frame index. */
+export const getFrameSnapshots = (): { frame: number; snapshot: FrameSnapshot }[] => {
+  pruneClosedFrames();
+  return Array.from(frames.values()).flatMap((frame) =>
+    frame.snapshot ? [{ frame: frame.index, snapshot: frame.snapshot }] : [],
+  );
+};
+
+/** Run `call` (already using the frame's own IDs) in frame `index`. */
+export const executeInFrame = (index: number, call: ToolCallWithId): Promise<FrameCallResponse> => {
+  pruneClosedFrames();
+  const frame = frames.get(index);
+  if (!frame) return Promise.resolve({ status: "unavailable" });
+
+  const requestId = `${Date.now().toString(36)}-${nextRequestId++}`;
+  return new Promise((resolve) => {
+    const timer = setTimeout(() => settlePending(requestId, { status: "timeout" }), FRAME_RESPONSE_TIMEOUT_MS);
+    pendingCalls.set(requestId, { frame: index, resolve, timer });
+    post(frame, { kind: "execute", requestId, call });
+  });
+};
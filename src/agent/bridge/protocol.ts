@@ -0,0 +1,171 @@
+import type { ToolCallWithId } from "../tools/types";
+
+/**
+ * Wire format between the widget (parent page) and the companion script
+ * running in cross-origin frames. Every message travels in a versioned
+ * envelope; either side ignores envelopes it does not understand.
+ */
+
+export const BRIDGE_PROTOCOL = "bulut-frame-bridge";
+/** Bump on incompatible changes; both sides drop other versions. */
+export const BRIDGE_PROTOCOL_VERSION = 1;
+
+/** Longest a frame may take to answer a call (waitFor alone may take 30 s). */
+export const FRAME_RESPONSE_TIMEOUT_MS = 35_000;
+/** Quiet period after DOM changes before a frame pushes a new snapshot. */
+export const FRAME_CONTEXT_DEBOUNCE_MS = 500;
+
+/** What a frame reports about itself: its scanned page context. */
+export interface FrameSnapshot {
+  url: string;
+  title: string;
+  headings: string[];
+  links: string[];
+  interactables: string[];
+}
+
+export type BridgeMessage =
+  /** Frame → parent: the script is running and can take calls. */
+  | { kind: "hello" }
+  /** Parent → frame: the widget started after the frame loaded; say hello. */
+  | { kind: "discover" }
+  /** Parent → frame: send a fresh snapshot. */
+  | { kind: "requestContext" }
+  /** Frame → parent: current snapshot (also pushed when the frame's DOM changes). */
+  | { kind: "context"; snapshot: FrameSnapshot }
+  /** Parent → frame: run a tool call; IDs in it are the frame's own. */
+  | { kind: "execute"; requestId: string; call: ToolCallWithId }
+  /** Frame → parent: serialized tool result for `requestId`. */
+  | { kind: "result"; requestId: string; result: string };
+
+export interface BridgeEnvelope {
+  protocol: typeof BRIDGE_PROTOCOL;
+  version: number;
+  message: BridgeMessage;
+}
+
+export const createEnvelope = (message: BridgeMessage): BridgeEnvelope => ({
+  protocol: BRIDGE_PROTOCOL,
+  version: BRIDGE_PROTOCOL_VERSION,
+  message,
+});
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every((item) => typeof item === "string");
+
+const isSnapshot = (value: unknown): value is FrameSnapshot =>
+  isObject(value) &&
+  typeof value.url === "string" &&
+  typeof value.title === "string" &&
+  isStringArray(value.headings) &&
+  isStringArray(value.links) &&
+  isStringArray(value.interactables);
+
+/** The message inside a well-formed envelope of this protocol version, else null. */
+export const parseEnvelope = (data: unknown): BridgeMessage | null => {
+  if (!isObject(data) || data.protocol !== BRIDGE_PROTOCOL) return null;
+  if (data.version !== BRIDGE_PROTOCOL_VERSION || !isObject(data.message)) return null;
+
+  const message = data.message;
+  switch (message.kind) {
+    case "hello":
+    case "discover":
+    case "requestContext":
+      return { kind: message.kind };
+    case "context":
+      return isSnapshot(message.snapshot) ? { kind: "context", snapshot: message.snapshot } : null;
+    case "execute":
+      return typeof message.requestId === "string" && isObject(message.call) && typeof message.call.tool === "string"
+        ? { kind: "execute", requestId: message.requestId, call: message.call as unknown as ToolCallWithId }
+        : null;
+    case "result":
+      return typeof message.requestId === "string" && typeof message.result === "string"
+        ? { kind: "result", requestId: message.requestId, result: message.result }
+        : null;
+    default:
+      return null;
+  }
+};
+
+/** `https://pay.example.com/x` → `https://pay.example.com`; null when not a URL. */
+export const normalizeOrigin = (value: string): string | null => {
+  try {
+    const { origin } = new URL(value);
+    return origin === "null" ? null : origin;
+  } catch {
+    return null;
+  }
+};
+
+/** Exact origin match against the allowlist; opaque origins never match. */
+export const isAllowedOrigin = (origin: string, allowlist: readonly string[]): boolean => {
+  const normalized = normalizeOrigin(origin);
+  return normalized !== null && allowlist.some((allowed) => normalizeOrigin(allowed) === normalized);
+};
+
+// ── Frame-scoped IDs ────────────────────────────────────────────────
+
+const FRAME_SCOPED_ID_PATTERN = /^f(\d+):(\d+)$/;
+/**
+ * `[12]` opening a context line or JSON string (`- [12] Button: …`,
+ * `"target":"[12] …"`, `\n- [12] …` inside serialized lines).
+ */
+const LEADING_ELEMENT_ID_PATTERN = /(^|\\n|[[:,]")(- )?\[(\d+)\](?= )/gm;
+/**
+ * `Sil [12]` control markers closing a table cell: only further markers may
+ * follow before ` | `, the line end or the string end.
+ */
+const CELL_ELEMENT_ID_PATTERN = / \[(\d+)\](?=(?: (?:[^[\]|"\\]+ )?\[\d+\])*(?: \| |$|\\n|"[,\]}]))/gm;
+
+export interface FrameScopedId {
+  frame: number;
+  id: number;
+}
+
+export const formatFrameScopedId = (frame: number, id: number): string => `f${frame}:${id}`;
+
+/** `"f1:12"` → `{ frame: 1, id: 12 }`; null for plain IDs and anything else. */
+export const parseFrameScopedId = (value: unknown): FrameScopedId | null => {
+  if (typeof value !== "string") return null;
+  const match = value.trim().match(FRAME_SCOPED_ID_PATTERN);
+  return match ? { frame: Number(match[1]), id: Number(match[2]) } : null;
+};
+
+/**
+ * Rewrite the `[12]` markers the context formatters emit in frame output to
+ * `[f1:12]`. Bracketed numbers inside labels and text ("[1]" footnotes) stay.
+ */
+export const scopeElementReferences = (text: string, frame: number): string =>
+  text
+    .replace(LEADING_ELEMENT_ID_PATTERN, (_, start: string, bullet = "", id: string) =>
+      `${start}${bullet}[${formatFrameScopedId(frame, Number(id))}]`)
+    .replace(CELL_ELEMENT_ID_PATTERN, (_, id: string) => ` [${formatFrameScopedId(frame, Number(id))}]`);
+
+/** Fields of tool calls that carry element IDs. */
+const ELEMENT_ID_FIELDS = ["id", "container"] as const;
+
+/**
+ * The frame a call targets and the call with that frame's own IDs, when
+ * its element IDs are frame-scoped. Null for calls on the parent page and
+ * for calls mixing IDs of different frames.
+ */
+export const localizeFrameCall = (call: ToolCallWithId): { frame: number; call: ToolCallWithId } | null => {
+  const fields = call as unknown as Record<string, unknown>;
+  const scoped = ELEMENT_ID_FIELDS.flatMap((field) => {
+    const parsed = parseFrameScopedId(fields[field]);
+    return parsed ? [{ field, ...parsed }] : [];
+  });
+  if (scoped.length === 0) return null;
+
+  const frame = scoped[0].frame;
+  if (scoped.some((entry) => entry.frame !== frame)) return null;
+  // A plain numeric ID next to a scoped one would mean a parent element.
+  if (ELEMENT_ID_FIELDS.some((field) => typeof fields[field] === "number")) return null;
+
+  const localized = { ...fields };
+  for (const entry of scoped) localized[entry.field] = entry.id;
+  return { frame, call: localized as unknown as ToolCallWithId };
+};
@@ -3,8 +3,19 @@ import {
   PAGE_CONTEXT_CACHE_KEY,
   PAGE_CONTEXT_CACHE_VERSION,
   buildPageContextSummary,
+  chunkText,
   clearPageContextCache,
+  createElementIdRegistry,
+  deriveColumnHeaders,
+  excerptAround,
+  expandTableGrid,
+  formatElementRecord,
+  formatScanSections,
+  formatTableRow,
   getCachedPageContexts,
+  listRevealedInteractables,
+  normalizeForSearch,
+  scoreTextMatch,
 } from "./context";
 
 describe("buildPageContextSummary", () => {
@@ -67,6 +78,23 @@ describe("buildPageContextSummary", () => {
     expect(summary).toContain("Headings:\n- none");
     expect(summary).toContain("Links:\n- none");
     expect(summary).toContain("Interactive Elements:\n- none");
+    expect(summary).not.toContain("Tables:");
+  });
+
+  it("lists tables between snippets and links when present", () => {
+    const summary = buildPageContextSummary(
+      "https://example.com/orders",
+      "Siparişlerim",
+      "tr",
+      [],
+      [],
+      [],
+      [],
+      ['- [40] Table "Siparişler": 3 rows; columns: Sipariş No, Tarih, Durum'],
+    );
+
+    expect(summary).toContain('Tables:\n- [40] Table "Siparişler"');
+    expect(summary.indexOf("Tables:")).toBeLessThan(summary.indexOf("Links:"));
   });
 
   it("restores page context entries from session storage cache", () => {
@@ -103,3 +131,240 @@ describe("buildPageContextSummary", () => {
     expect(getCachedPageContexts()).toHaveLength(0);
   });
 });
+
+describe("listRevealedInteractables", () => {
+  it("returns only lines whose elements were not scanned before", () => {
+    const menu = {} as Element;
+    const submenuItem = {} as Element;
+    const context = {
+      links: ["- [1] Kampanyalar -> https://example.com/kampanya"],
+      interactables: ['- [2] Button: "Menü" (Expanded)', '- [3] MenuItem: "İade Politikası"'],
+      summary: "",
+      elementMap: new Map<number, Element>([
+        [1, {} as Element],
+        [2, menu],
+        [3, submenuItem],
+      ]),
+    };
+
+    const revealed = listRevealedInteractables(
+      new Set([menu, context.elementMap.get(1)!]),
+      context,
+    );
+    expect(revealed).toEqual(['- [3] MenuItem: "İade Politikası"']);
+  });
+});
+
+describe("element records", () => {
+  const record = (id: number, descriptor: string, extra: { href?: string; states?: string[]; score?: number } = {}) => ({
+    id,
+    element: {} as Element,
+    descriptor,
+    href: extra.href,
+    states: extra.states ?? [],
+    score: extra.score ?? 5,
+    order: id,
+  });
+
+  it("formats type, label, href and state on one line", () => {
+    expect(formatElementRecord(record(4, 'Link: "Sepet"', { href: "https://example.com/cart", states: ["Current"] })))
+      .toBe('- [4] Link: "Sepet" -> https://example.com/cart (Current)');
+    expect(formatElementRecord(record(5, 'Button: "Öde"'))).toBe('- [5] Button: "Öde"');
+  });
+
+  it("lists each element in exactly one section", () => {
+    const { links, interactables } = formatScanSections([
+      record(1, 'Link: "Ana Sayfa"', { href: "https://example.com/" }),
+      record(2, 'Button: "Menü"', { score: 9 }),
+      record(3, 'Link: "Logo"', { href: "https://example.com/" }),
+      record(4, 'Link: "Kampanyalar"', { href: "https://example.com/kampanya" }),
+    ]);
+
+    expect(links).toEqual([
+      '- [1] Link: "Ana Sayfa" -> https://example.com/',
+      '- [4] Link: "Kampanyalar" -> https://example.com/kampanya',
+    ]);
+    expect(interactables).toEqual([
+      '- [2] Button: "Menü"',
+      '- [3] Link: "Logo" -> https://example.com/',
+    ]);
+  });
+});
+
+describe("page search matching", () => {
+  it("folds Turkish casing and diacritics", () => {
+    expect(normalizeForSearch("İADE Politikası")).toBe("iade politikasi");
+    expect(normalizeForSearch("Iğdır Şubesi")).toBe("igdir subesi");
+    expect(normalizeForSearch("Ürün Çeşitleri")).toBe(normalizeForSearch("urun cesitleri"));
+  });
+
+  it("matches suffixed words, typos and diacritic-free queries", () => {
+    expect(scoreTextMatch("iade", "İadesi yapılan ürünler")).toBeGreaterThan(0);
+    expect(scoreTextMatch("iade politikasi", "İade Politikası")).toBe(1);
+    expect(scoreTextMatch("kargo ucreti", "Kargo ücretleri siparişe eklenir")).toBeGreaterThan(0);
+    expect(scoreTextMatch("teslimat", "Teslımat süresi 3 gündür")).toBeGreaterThan(0);
+  });
+
+  it("rejects text missing query words", () => {
+    expect(scoreTextMatch("iade politikasi", "Gizlilik politikası")).toBe(0);
+    expect(scoreTextMatch("iade", "")).toBe(0);
+    expect(scoreTextMatch("", "İade")).toBe(0);
+  });
+
+  it("ranks exact phrases above scattered matches", () => {
+    const phrase = scoreTextMatch("iade süresi", "İade süresi 14 gündür");
+    const scattered = scoreTextMatch("iade süresi", "Süresi dolan kuponlar iade edilmez");
+    expect(phrase).toBeGreaterThan(scattered);
+  });
+
+  it("excerpts long text around the first match", () => {
+    const text = `${"Lorem ipsum dolor sit amet. ".repeat(10)}İade süresi 14 gündür. ${"Consectetur adipiscing. ".repeat(10)}`;
+    const excerpt = excerptAround(text, "iade", 80);
+    expect(excerpt).toContain("İade süresi");
+    expect(excerpt.startsWith("…")).toBe(true);
+    expect(excerpt.endsWith("…")).toBe(true);
+  });
+});
+
+describe("chunkText", () => {
+  it("keeps short text in a single page", () => {
+    expect(chunkText("# Başlık\n- madde", 100)).toEqual(["# Başlık\n- madde"]);
+    expect(chunkText("", 100)).toEqual([]);
+  });
+
+  it("breaks between lines without splitting list items", () => {
+    const lines = Array.from({ length: 10 }, (_, index) => `- Madde ${index + 1}: kargo ve iade koşulları`);
+    const pages = chunkText(lines.join("\n"), 120);
+
+    expect(pages.length).toBeGreaterThan(1);
+    expect(pages.every((page) => page.length <= 120)).toBe(true);
+    expect(pages.join("\n").split("\n")).toEqual(lines);
+  });
+
+  it("splits an overlong line at sentence boundaries", () => {
+    const sentence = "Siparişiniz iki iş günü içinde kargoya verilir. ";
+    const pages = chunkText(sentence.repeat(6).trim(), 110);
+
+    expect(pages.length).toBeGreaterThan(1);
+    expect(pages.every((page) => page.length <= 110 && page.endsWith("."))).toBe(true);
+  });
+});
+
+describe("table grids", () => {
+  const cell = (text: string, extra: { header?: boolean; colspan?: number; rowspan?: number } = {}) => ({
+    text,
+    header: extra.header ?? false,
+    colspan: extra.colspan,
+    rowspan: extra.rowspan,
+  });
+
+  it("expands colspan and rowspan into a rectangular grid", () => {
+    const grid = expandTableGrid([
+      [cell("Ürün", { rowspan: 2 }), cell("Fiyat", { colspan: 2 })],
+      [cell("KDV hariç"), cell("KDV dahil")],
+      [cell("Kalem"), cell("10"), cell("12")],
+    ]);
+
+    expect(grid.map((row) => row.map((slot) => slot?.text ?? null))).toEqual([
+      ["Ürün", "Fiyat", "Fiyat"],
+      ["Ürün", "KDV hariç", "KDV dahil"],
+      ["Kalem", "10", "12"],
+    ]);
+  });
+
+  it("pads short rows with null", () => {
+    const grid = expandTableGrid([[cell("a"), cell("b")], [cell("c")]]);
+    expect(grid[1]).toEqual([expect.objectContaining({ text: "c" }), null]);
+  });
+
+  it("joins multi-row headers and names missing columns", () => {
+    const grid = expandTableGrid([
+      [cell("Ürün", { header: true, rowspan: 2 }), cell("Fiyat", { header: true, colspan: 2 }), cell("", { header: true })],
+      [cell("KDV hariç", { header: true }), cell("KDV dahil", { header: true }), cell("", { header: true })],
+      [cell("Kalem"), cell("10"), cell("12"), cell("Sepete ekle")],
+    ]);
+
+    expect(deriveColumnHeaders(grid)).toEqual({
+      headers: ["Ürün", "Fiyat / KDV hariç", "Fiyat / KDV dahil", "Column 4"],
+      bodyStart: 2,
+    });
+  });
+
+  it("treats tables without header rows as all body", () => {
+    const grid = expandTableGrid([[cell("a"), cell("b")]]);
+    expect(deriveColumnHeaders(grid)).toEqual({ headers: ["Column 1", "Column 2"], bodyStart: 0 });
+  });
+
+  it("formats rows as header: value pairs and skips empty cells", () => {
+    const line = formatTableRow(
+      ["Sipariş No", "Tarih", "Durum", "İşlem"],
+      { id: 52, cells: ["#1042", "12.03.2026", "Kargoda", "Detay [53]"] },
+    );
+    expect(line).toBe("- [52] Sipariş No: #1042 | Tarih: 12.03.2026 | Durum: Kargoda | İşlem: Detay [53]");
+
+    expect(formatTableRow(["Adet", "Stok", "Not"], { id: 7, cells: ["1", "1", ""] })).toBe("- [7] Adet: 1 | Stok: 1");
+  });
+});
+
+describe("createElementIdRegistry", () => {
+  type FakeElement = { name: string; alive: boolean };
+  const node = (name: string): FakeElement => ({ name, alive: true });
+  const createRegistry = (maxFingerprints?: number) =>
+    createElementIdRegistry<FakeElement>((element) => element.alive, maxFingerprints);
+
+  it("keeps an element's ID across scans", () => {
+    const registry = createRegistry();
+    const button = node("Gönder");
+    const link = node("Sepet");
+
+    expect(registry.assign(button, "button|Gönder")).toBe(1);
+    expect(registry.assign(link, "link|Sepet")).toBe(2);
+    expect(registry.assign(button, "button|Gönder")).toBe(1);
+    expect(registry.lookup(1)).toBe(button);
+  });
+
+  it("lets a re-rendered element inherit the ID of the one it replaced", () => {
+    const registry = createRegistry();
+    const before = node("Gönder");
+    registry.assign(before, "button|Gönder|form>button");
+
+    before.alive = false;
+    const after = node("Gönder");
+    expect(registry.assign(after, "button|Gönder|form>button")).toBe(1);
+    expect(registry.lookup(1)).toBe(after);
+    expect(registry.isStale(1)).toBe(false);
+  });
+
+  it("does not hand a live element's ID to a lookalike", () => {
+    const registry = createRegistry();
+    const first = node("Sepete ekle");
+    const second = node("Sepete ekle");
+
+    expect(registry.assign(first, "button|Sepete ekle")).toBe(1);
+    expect(registry.assign(second, "button|Sepete ekle")).toBe(2);
+  });
+
+  it("reports removed elements as stale and never reuses their IDs", () => {
+    const registry = createRegistry();
+    const dialog = node("Kapat");
+    registry.assign(dialog, "button|Kapat");
+
+    dialog.alive = false;
+    registry.prune();
+    expect(registry.lookup(1)).toBeUndefined();
+    expect(registry.isStale(1)).toBe(true);
+    expect(registry.isStale(99)).toBe(false);
+
+    expect(registry.assign(node("Devam"), "button|Devam")).toBe(2);
+  });
+
+  it("forgets the oldest fingerprints beyond the limit", () => {
+    const registry = createRegistry(2);
+    const elements = ["a", "b", "c"].map(node);
+    elements.forEach((element) => registry.assign(element, element.name));
+    elements.forEach((element) => { element.alive = false; });
+
+    expect(registry.assign(node("a"), "a")).toBe(4);
+    expect(registry.assign(node("c"), "c")).toBe(3);
+  });
+});
@@ -2,7 +2,9 @@
  * Re-export barrel  all context functionality now lives in context/ sub-modules.
  * This file exists for backward compatibility so existing imports keep working.
  */
-export type { PageContext, CachedPageContextEntry } from "./context/types";
+export { MAX_FIND_RESULTS, TABLE_ROWS_PER_PAGE } from "./context/config";
+export type { PageContext, CachedPageContextEntry, ElementRecord, SemanticScanResult } from "./context/types";
+export { formatElementRecord, formatScanSections, collectHeadings } from "./context/scanner";
 export {
   PAGE_CONTEXT_CACHE_VERSION,
   PAGE_CONTEXT_CACHE_KEY,
@@ -10,4 +12,61 @@ export {
   getCachedPageContexts,
   invalidateCurrentPageContext,
 } from "./context/cache";
-export { getPageContext, getElementById, buildPageContextSummary } from "./context/getPageContext";
+export {
+  getPageContext,
+  getElementById,
+  buildPageContextSummary,
+  captureScannedElements,
+  listRevealedInteractables,
+  registerElement,
+} from "./context/getPageContext";
+export { isStaleElementId, createElementIdRegistry, computeElementFingerprint } from "./context/elementIds";
+export type { ElementIdRegistry } from "./context/elementIds";
+export {
+  describeElement,
+  getElementState,
+  isElementChecked,
+  isElementDisabled,
+} from "./context/elementDescriptors";
+export type { CheckedState } from "./context/elementDescriptors";
+export { computeAccessibleName, computeAccessibleDescription, getImplicitRole } from "./context/accessibleName";
+export {
+  isInstanceOf,
+  getElementWindow,
+  getFrameDocument,
+  getFrameElement,
+  getFrameOffset,
+  getTreeHost,
+  getComposedParent,
+  collectDeepElements,
+  deepQuerySelector,
+  deepQuerySelectorAll,
+  deepElementFromPoint,
+  isBulutHost,
+  getDeepActiveElement,
+} from "./context/domTraversal";
+export {
+  findInPage,
+  formatFindMatch,
+  normalizeForSearch,
+  scoreTextMatch,
+  excerptAround,
+} from "./context/search";
+export type { FindMatch } from "./context/search";
+export {
+  chunkText,
+  extractStructuredText,
+  extractHeadingSection,
+  findHeadingByText,
+  getMainContentRoot,
+  isHeadingElement,
+} from "./context/reader";
+export {
+  expandTableGrid,
+  deriveColumnHeaders,
+  readTableElement,
+  formatTableRow,
+  collectTableSummaries,
+  findEnclosingTable,
+} from "./context/tables";
+export type { TableCellSpec, TableData, TableRow } from "./context/tables";
@@ -0,0 +1,284 @@
+import { normalizeWhitespace, getPrimaryRole } from "./helpers";
+import { isInstanceOf } from "./domTraversal";
+
+/**
+ * Accessible name and description, following the W3C accname algorithm
+ * (https://www.w3.org/TR/accname-1.2/) with the HTML-AAM native label rules.
+ * Step letters in comments refer to section 4.3.2 of the spec.
+ */
+
+interface TraversalState {
+  /** The element whose name is being computed. */
+  root: Element;
+  /** Nodes already visited, to break aria-labelledby cycles. */
+  visited: Set<Node>;
+  /** Walking an aria-labelledby / aria-describedby reference. */
+  referenced: boolean;
+  /** Computing text for a label, reference or content of an ancestor. */
+  recursing: boolean;
+}
+
+const NAME_FROM_CONTENT_ROLES = new Set([
+  "button", "cell", "checkbox", "columnheader", "gridcell", "heading", "link",
+  "menuitem", "menuitemcheckbox", "menuitemradio", "option", "radio", "row",
+  "rowheader", "switch", "tab", "tooltip", "treeitem",
+]);
+
+const TEXTBOX_ROLES = new Set(["textbox", "searchbox"]);
+const RANGE_ROLES = new Set(["slider", "spinbutton", "scrollbar", "progressbar", "meter"]);
+const PRESENTATIONAL_ROLES = new Set(["presentation", "none"]);
+
+const HEADING_TAGS = new Set(["h1", "h2", "h3", "h4", "h5", "h6"]);
+
+/** Role an element exposes: explicit `role`, else the HTML-AAM mapping of its tag. */
+export const getImplicitRole = (element: Element): string => {
+  const explicit = getPrimaryRole(element);
+  if (explicit) return explicit;
+
+  const tag = element.tagName.toLowerCase();
+  if (HEADING_TAGS.has(tag)) return "heading";
+  switch (tag) {
+    case "a":
+    case "area":
+      return element.hasAttribute("href") ? "link" : "";
+    case "button":
+    case "summary":
+      return "button";
+    case "option":
+      return "option";
+    case "td":
+      return "cell";
+    case "th":
+      return "columnheader";
+    case "tr":
+      return "row";
+    case "textarea":
+      return "textbox";
+    case "select":
+      return (element as HTMLSelectElement).multiple || (element as HTMLSelectElement).size > 1 ? "listbox" : "combobox";
+    case "img":
+      return element.getAttribute("alt") === "" ? "presentation" : "img";
+    case "input": {
+      const type = (element.getAttribute("type") || "text").toLowerCase();
+      if (["button", "submit", "reset", "image"].includes(type)) return "button";
+      if (type === "checkbox") return "checkbox";
+      if (type === "radio") return "radio";
+      if (type === "range") return "slider";
+      if (type === "number") return "spinbutton";
+      if (type === "search") return "searchbox";
+      return type === "hidden" ? "" : "textbox";
+    }
+    default:
+      return "";
+  }
+};
+
+const isHiddenNode = (element: Element): boolean => {
+  if (element.getAttribute("aria-hidden") === "true") return true;
+  if (isInstanceOf(element, HTMLElement) && element.hidden) return true;
+  const view = element.ownerDocument.defaultView;
+  if (!view) return false;
+  const style = view.getComputedStyle(element);
+  return style.display === "none" || style.visibility === "hidden";
+};
+
+/** IDREF targets, resolved in the element's own tree (shadow root or document). */
+const getReferencedElements = (element: Element, attribute: string): Element[] => {
+  const root = element.getRootNode() as Document | ShadowRoot;
+  const scope = typeof root.getElementById === "function" ? root : element.ownerDocument;
+  return (element.getAttribute(attribute) || "")
+    .split(/\s+/)
+    .filter(Boolean)
+    .map((id) => scope.getElementById(id))
+    .filter((node): node is HTMLElement => node !== null);
+};
+
+const isBlockLevel = (element: Element): boolean => {
+  const view = element.ownerDocument.defaultView;
+  const display = view ? view.getComputedStyle(element).display : "";
+  return Boolean(display) && !display.startsWith("inline") && display !== "contents";
+};
+
+/** CSS generated content (`::before` / `::after`), when the engine exposes it. */
+const getPseudoContent = (element: Element, pseudo: "::before" | "::after"): string => {
+  try {
+    const content = element.ownerDocument.defaultView?.getComputedStyle(element, pseudo).content ?? "";
+    const match = content.match(/^["'](.*)["']$/);
+    return match ? match[1] : "";
+  } catch {
+    return "";
+  }
+};
+
+/** Step 2C: the value an embedded control contributes to a surrounding label. */
+const getEmbeddedControlValue = (element: Element, role: string): string | null => {
+  if (TEXTBOX_ROLES.has(role)) {
+    if (isInstanceOf(element, HTMLInputElement) || isInstanceOf(element, HTMLTextAreaElement)) return element.value;
+    return element.textContent || "";
+  }
+  if (role === "combobox" || role === "listbox") {
+    if (isInstanceOf(element, HTMLSelectElement)) {
+      return Array.from(element.selectedOptions).map((option) => option.text).join(" ");
+    }
+    const selected = element.querySelectorAll("[role='option'][aria-selected='true']");
+    if (selected.length > 0) return Array.from(selected).map((option) => option.textContent || "").join(" ");
+    return isInstanceOf(element, HTMLInputElement) ? element.value : "";
+  }
+  if (RANGE_ROLES.has(role)) {
+    const valueText = element.getAttribute("aria-valuetext");
+    if (valueText) return valueText;
+    const valueNow = element.getAttribute("aria-valuenow");
+    if (valueNow) return valueNow;
+    return isInstanceOf(element, HTMLInputElement) ? element.value : "";
+  }
+  return null;
+};
+
+/** Step 2E: names HTML gives natively (labels, alt, legend, caption, button values). */
+const getNativeName = (element: Element, state: TraversalState): string => {
+  const tag = element.tagName.toLowerCase();
+
+  if (isInstanceOf(element, HTMLInputElement)) {
+    const type = element.type.toLowerCase();
+    if (type === "button" || type === "submit" || type === "reset") {
+      if (element.value) return element.value;
+      if (type === "submit") return "Submit";
+      if (type === "reset") return "Reset";
+    }
+    if (type === "image") return element.alt || element.getAttribute("title") || "Submit";
+  }
+
+  if (
+    isInstanceOf(element, HTMLInputElement) ||
+    isInstanceOf(element, HTMLTextAreaElement) ||
+    isInstanceOf(element, HTMLSelectElement) ||
+    isInstanceOf(element, HTMLButtonElement) ||
+    isInstanceOf(element, HTMLMeterElement) ||
+    isInstanceOf(element, HTMLProgressElement) ||
+    isInstanceOf(element, HTMLOutputElement)
+  ) {
+    const labels = Array.from(element.labels ?? []);
+    const text = labels
+      .map((label) => computeTextAlternative(label, { ...state, recursing: true }))
+      .filter(Boolean)
+      .join(" ");
+    if (normalizeWhitespace(text)) return text;
+  }
+
+  if (tag === "img" || tag === "area") return element.getAttribute("alt") || "";
+  if (tag === "fieldset") {
+    const legend = element.querySelector(":scope > legend");
+    return legend ? computeTextAlternative(legend, { ...state, recursing: true }) : "";
+  }
+  if (tag === "table") {
+    const caption = element.querySelector(":scope > caption");
+    return caption ? computeTextAlternative(caption, { ...state, recursing: true }) : "";
+  }
+  if (tag === "figure") {
+    const caption = element.querySelector(":scope > figcaption");
+    return caption ? computeTextAlternative(caption, { ...state, recursing: true }) : "";
+  }
+  if (tag === "svg") {
+    const title = Array.from(element.children).find((child) => child.tagName.toLowerCase() === "title");
+    return title?.textContent || "";
+  }
+  return "";
+};
+
+/** Step 2F: name from the element's rendered content. */
+const getContentText = (element: Element, state: TraversalState): string => {
+  const parts: string[] = [getPseudoContent(element, "::before")];
+  for (const child of element.childNodes) {
+    if (child.nodeType === Node.TEXT_NODE) {
+      parts.push(child.textContent || "");
+    } else if (isInstanceOf(child, Element)) {
+      const text = computeTextAlternative(child, { ...state, recursing: true });
+      parts.push(isBlockLevel(child) ? ` ${text} ` : text);
+    }
+  }
+  parts.push(getPseudoContent(element, "::after"));
+  return parts.join("");
+};
+
+const computeTextAlternative = (node: Element, state: TraversalState): string => {
+  if (state.visited.has(node)) return "";
+  state.visited.add(node);
+
+  // 2A: hidden nodes count only when referenced directly.
+  if (isHiddenNode(node) && !state.referenced) return "";
+
+  // 2B: aria-labelledby, unless already following a reference.
+  if (!state.referenced) {
+    const references = getReferencedElements(node, "aria-labelledby");
+    if (references.length > 0) {
+      const text = references
+        .map((reference) => computeTextAlternative(reference, { ...state, referenced: true, recursing: true }))
+        .join(" ");
+      if (normalizeWhitespace(text)) return text;
+    }
+  }
+
+  const role = getImplicitRole(node);
+
+  // 2C: controls inside another element's label contribute their value;
+  // the control being named is left out of its own label.
+  if (state.recursing) {
+    if (node === state.root) return "";
+    const value = getEmbeddedControlValue(node, role);
+    if (value !== null) return value;
+  }
+
+  // 2D: aria-label.
+  const ariaLabel = node.getAttribute("aria-label") || "";
+  if (normalizeWhitespace(ariaLabel)) return ariaLabel;
+
+  // 2E: native label, unless presentational.
+  if (!PRESENTATIONAL_ROLES.has(role)) {
+    const native = getNativeName(node, state);
+    if (normalizeWhitespace(native)) return native;
+  }
+
+  // 2F: content, for roles named from content and any nested traversal.
+  if (state.recursing || NAME_FROM_CONTENT_ROLES.has(role)) {
+    const content = getContentText(node, state);
+    if (normalizeWhitespace(content)) return content;
+  }
+
+  // 2I: tooltip attribute, then placeholder for text fields (HTML-AAM).
+  const title = node.getAttribute("title") || "";
+  if (normalizeWhitespace(title)) return title;
+  if (isInstanceOf(node, HTMLInputElement) || isInstanceOf(node, HTMLTextAreaElement)) {
+    return node.placeholder || "";
+  }
+  return "";
+};
+
+/** Accessible name of `element`, whitespace-normalized. */
+export const computeAccessibleName = (element: Element): string =>
+  normalizeWhitespace(
+    computeTextAlternative(element, { root: element, visited: new Set(), referenced: false, recursing: false }),
+  );
+
+/**
+ * Accessible description: `aria-describedby` text, else `aria-description`,
+ * else a `title` that did not already serve as the name.
+ */
+export const computeAccessibleDescription = (element: Element): string => {
+  const references = getReferencedElements(element, "aria-describedby");
+  if (references.length > 0) {
+    const text = normalizeWhitespace(
+      references
+        .map((reference) =>
+          computeTextAlternative(reference, { root: element, visited: new Set([element]), referenced: true, recursing: true }),
+        )
+        .join(" "),
+    );
+    if (text) return text;
+  }
+
+  const description = normalizeWhitespace(element.getAttribute("aria-description") || "");
+  if (description) return description;
+
+  const title = normalizeWhitespace(element.getAttribute("title") || "");
+  return title && title !== computeAccessibleName(element) ? title : "";
+};
@@ -2,12 +2,18 @@ import type { CachedPageContextEntry } from "./types";
 import { normalizeWhitespace, canonicalUrl } from "./helpers";
 import { MAX_CACHED_PAGES } from "./config";
 
-export const PAGE_CONTEXT_CACHE_VERSION = 4;
-export const PAGE_CONTEXT_CACHE_KEY = "auticbot_page_context_cache_v4";
+export const PAGE_CONTEXT_CACHE_VERSION = 5;
+export const PAGE_CONTEXT_CACHE_KEY = "auticbot_page_context_cache_v5";
 
 const pageContextCache = new Map<string, CachedPageContextEntry>();
 let cacheHydrated = false;
 
+// The ID registry restarts with every page load, so entries persisted by an
+// earlier load are kept as history but never served as the current page.
+const DOCUMENT_ID = `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+
+const ELEMENT_ID_PATTERN = /\[\d+\]\s*/g;
+
 const isCacheEntry = (value: unknown): value is CachedPageContextEntry => {
   if (typeof value !== "object" || value === null) return false;
   const obj = value as Record<string, unknown>;
@@ -17,7 +23,8 @@ const isCacheEntry = (value: unknown): value is CachedPageContextEntry => {
     Array.isArray(obj.links) &&
     Array.isArray(obj.interactables) &&
     typeof obj.capturedAt === "number" &&
-    typeof obj.version === "number"
+    typeof obj.version === "number" &&
+    (obj.documentId === undefined || typeof obj.documentId === "string")
   );
 };
 
@@ -81,7 +88,7 @@ export const buildSummaryWithHistory = (current: CachedPageContextEntry): string
   const historySection = [
     "Recent Page Memory:",
     ...recentPages.map((entry) => {
-      const compactSummary = normalizeWhitespace(entry.summary);
+      const compactSummary = normalizeWhitespace(entry.summary.replace(ELEMENT_ID_PATTERN, ""));
       return `- ${entry.url} :: ${compactSummary}`;
     }),
   ].join("\n");
@@ -111,11 +118,12 @@ export const invalidateCurrentPageContext = (): void => {
 
 export const getCachedEntry = (url: string): CachedPageContextEntry | undefined => {
   hydrateCacheFromStorage();
-  return pageContextCache.get(url);
+  const entry = pageContextCache.get(url);
+  return entry?.documentId === DOCUMENT_ID ? entry : undefined;
 };
 
 export const storeCacheEntry = (entry: CachedPageContextEntry): void => {
-  pageContextCache.set(entry.url, entry);
+  pageContextCache.set(entry.url, { ...entry, documentId: DOCUMENT_ID });
   pruneOldestCacheEntries();
   persistCacheToStorage();
 };
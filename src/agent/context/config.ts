@@ -15,6 +15,9 @@ export const MAX_INTERACTABLES = 2000;
 /** Maximum number of headings (h1-h3) to include. */
 export const MAX_HEADINGS = 100;
 
+/** Maximum number of options listed per select / listbox. */
+export const MAX_SELECT_OPTIONS = 15;
+
 /** Maximum number of main-content text snippets. */
 export const MAX_TEXT_SNIPPETS = 30;
 
@@ -23,3 +26,21 @@ export const MAX_CACHED_PAGES = 25;
 
 /** Maximum number of DOM elements scanned per page. */
 export const MAX_PAGE_SCAN_ELEMENTS = 10000;
+
+/** Maximum number of matches returned by the `find` tool. */
+export const MAX_FIND_RESULTS = 20;
+
+/** Characters of surrounding text shown per `find` match. */
+export const FIND_CONTEXT_CHARS = 160;
+
+/** Characters per page returned by the `readElement` tool. */
+export const READ_CHUNK_CHARS = 4000;
+
+/** Maximum number of tables listed in the page summary. */
+export const MAX_TABLES = 10;
+
+/** Table rows returned per `readTable` page. */
+export const TABLE_ROWS_PER_PAGE = 40;
+
+/** Fingerprints remembered so re-rendered elements can reclaim their IDs. */
+export const MAX_ID_FINGERPRINTS = 5000;
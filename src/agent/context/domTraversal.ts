@@ -0,0 +1,208 @@
+import { BULUT_HOST_ID, BULUT_MOUNT_ID } from "../tools/constants";
+
+/**
+ * Traversal across open shadow roots and same-origin iframes. Light DOM
+ * queries stop at both boundaries, which hides design-system web components
+ * and embedded payment / help frames from the scanner and selectors.
+ */
+
+// ── Realms ──────────────────────────────────────────────────────────
+
+/**
+ * `instanceof` that also accepts nodes from same-origin frames, whose
+ * constructors belong to the frame's window: `isInstanceOf(node, HTMLInputElement)`.
+ */
+export const isInstanceOf = <T>(node: unknown, constructor: { prototype: T; name: string }): node is T => {
+  if (typeof node !== "object" || node === null) return false;
+  if (node instanceof (constructor as unknown as typeof Object)) return true;
+  const view = (node as Node).ownerDocument?.defaultView as unknown as Record<string, unknown> | null | undefined;
+  const foreign = view && view !== (window as unknown) ? view[constructor.name] : undefined;
+  return typeof foreign === "function" && (node as object) instanceof (foreign as typeof Object);
+};
+
+/** The window an element renders in (a frame's window for frame content). */
+export const getElementWindow = (element: Element): Window => element.ownerDocument.defaultView ?? window;
+
+// ── Frames ──────────────────────────────────────────────────────────
+
+/** Document of a same-origin `<iframe>` / `<frame>`; null for anything else. */
+export const getFrameDocument = (element: Element): Document | null => {
+  const tag = element.tagName;
+  if (tag !== "IFRAME" && tag !== "FRAME") return null;
+  try {
+    return (element as HTMLIFrameElement).contentDocument;
+  } catch {
+    // Cross-origin frames throw in some engines instead of returning null.
+    return null;
+  }
+};
+
+/** The frame element hosting `element`'s document, when it is a child frame of this window. */
+export const getFrameElement = (element: Element): Element | null => {
+  const view = element.ownerDocument.defaultView;
+  if (!view || view === window) return null;
+  try {
+    return view.frameElement;
+  } catch {
+    return null;
+  }
+};
+
+/** Viewport position of a frame's content box (borders and padding excluded). */
+const getFrameContentOrigin = (frame: Element): { x: number; y: number } => {
+  const rect = frame.getBoundingClientRect();
+  const style = getElementWindow(frame).getComputedStyle(frame);
+  return {
+    x: rect.left + frame.clientLeft + (Number.parseFloat(style.paddingLeft) || 0),
+    y: rect.top + frame.clientTop + (Number.parseFloat(style.paddingTop) || 0),
+  };
+};
+
+/**
+ * Offset from `element`'s frame viewport to this window's viewport. Add it
+ * to a `getBoundingClientRect()` of frame content to get top-level client
+ * coordinates; zero for elements of this document.
+ */
+export const getFrameOffset = (element: Element): { x: number; y: number } => {
+  const offset = { x: 0, y: 0 };
+  let frame = getFrameElement(element);
+  while (frame) {
+    const origin = getFrameContentOrigin(frame);
+    offset.x += origin.x;
+    offset.y += origin.y;
+    frame = getFrameElement(frame);
+  }
+  return offset;
+};
+
+// ── Deep traversal ──────────────────────────────────────────────────
+
+type SearchRoot = Document | ShadowRoot;
+
+/**
+ * Bulut renders its own UI in a shadow root; never scan or target it. A
+ * caller-supplied container (the React component) is known by its mount node.
+ */
+export const isBulutHost = (element: Element): boolean =>
+  element.id === BULUT_HOST_ID || Boolean(element.shadowRoot?.getElementById(BULUT_MOUNT_ID));
+
+/** Open shadow root or same-origin frame document nested under `element`. */
+const getNestedRoots = (element: Element): SearchRoot[] => {
+  const roots: SearchRoot[] = [];
+  if (element.shadowRoot) roots.push(element.shadowRoot);
+  const frameDocument = getFrameDocument(element);
+  if (frameDocument) roots.push(frameDocument);
+  return roots;
+};
+
+/**
+ * Every element under `root`, shadow and frame content included right after
+ * its host. Bulut's host and everything inside it are skipped.
+ */
+export const collectDeepElements = (root: SearchRoot = document, limit = Number.POSITIVE_INFINITY): Element[] => {
+  const elements: Element[] = [];
+
+  const walk = (current: SearchRoot) => {
+    let skipped: Element | null = null;
+    for (const element of current.querySelectorAll("*")) {
+      if (elements.length >= limit) return;
+      if (skipped?.contains(element)) continue;
+      if (isBulutHost(element)) {
+        skipped = element;
+        continue;
+      }
+      elements.push(element);
+      getNestedRoots(element).forEach(walk);
+    }
+  };
+
+  walk(root);
+  return elements;
+};
+
+/** `root` followed by every shadow root and frame document nested in it. */
+const collectSearchRoots = (root: SearchRoot = document): SearchRoot[] => [
+  root,
+  ...collectDeepElements(root).flatMap(getNestedRoots),
+];
+
+const isOutsideBulut = (element: Element): boolean => !element.closest(`#${BULUT_HOST_ID}`) && !isBulutHost(element);
+
+/**
+ * `querySelector` across shadow roots and same-origin frames. Selectors
+ * match within one tree; an invalid selector throws as `querySelector` does.
+ */
+export const deepQuerySelector = (selector: string, root: SearchRoot = document): Element | null => {
+  const findIn = (current: SearchRoot) => Array.from(current.querySelectorAll(selector)).find(isOutsideBulut) ?? null;
+  const light = findIn(root);
+  if (light) return light;
+  for (const nested of collectSearchRoots(root).slice(1)) {
+    const match = findIn(nested);
+    if (match) return match;
+  }
+  return null;
+};
+
+export const deepQuerySelectorAll = (selector: string, root: SearchRoot = document): Element[] =>
+  collectSearchRoots(root).flatMap((current) => Array.from(current.querySelectorAll(selector)).filter(isOutsideBulut));
+
+/** Parent element, stepping from a shadow root's top level to its host. */
+export const getComposedParent = (element: Element): Element | null => {
+  if (element.parentElement) return element.parentElement;
+  const parent = element.parentNode;
+  return parent && parent.nodeType === Node.DOCUMENT_FRAGMENT_NODE && "host" in parent ? (parent as ShadowRoot).host : null;
+};
+
+/**
+ * The element that owns `element`'s tree: the shadow host for shadow
+ * content, the frame element for frame content, null in this document.
+ */
+export const getTreeHost = (element: Element): Element | null => {
+  const root = element.getRootNode();
+  if (root.nodeType === Node.DOCUMENT_FRAGMENT_NODE && "host" in root) return (root as ShadowRoot).host;
+  return getFrameElement(element);
+};
+
+/**
+ * The focused element, followed into open shadow roots and same-origin
+ * frames. A focused frame with nothing focused inside yields its body,
+ * which is where the browser sends key events. Bulut's host is not entered.
+ */
+export const getDeepActiveElement = (): Element | null => {
+  let active = document.activeElement;
+  while (active && !isBulutHost(active)) {
+    const nested = active.shadowRoot?.activeElement ?? getFrameDocument(active)?.activeElement ?? null;
+    if (!nested) break;
+    active = nested;
+  }
+  return active;
+};
+
+/**
+ * Topmost element at client coordinates (x, y), descending into open
+ * shadow roots and same-origin frames. Hits matching `skip` are passed over.
+ */
+export const deepElementFromPoint = (
+  x: number,
+  y: number,
+  skip: (element: Element) => boolean = () => false,
+): Element | null => {
+  const search = (root: SearchRoot, pointX: number, pointY: number): Element | null => {
+    for (const hit of root.elementsFromPoint(pointX, pointY)) {
+      if (isBulutHost(hit) || skip(hit)) continue;
+      if (hit.shadowRoot && hit.shadowRoot !== root) {
+        const inner = search(hit.shadowRoot, pointX, pointY);
+        if (inner) return inner;
+      }
+      const frameDocument = getFrameDocument(hit);
+      if (frameDocument) {
+        const origin = getFrameContentOrigin(hit);
+        const inner = search(frameDocument, pointX - origin.x, pointY - origin.y);
+        if (inner) return inner;
+      }
+      return hit;
+    }
+    return null;
+  };
+  return search(document, x, y);
+};
@@ -1,43 +1,82 @@
 import { normalizeWhitespace, getPrimaryRole } from "./helpers";
+import { MAX_SELECT_OPTIONS } from "./config";
+import { computeAccessibleName } from "./accessibleName";
+import { isInstanceOf } from "./domTraversal";
+
+/** Resolve the listbox a combobox / listbox element exposes its options in. */
+const getOwnedListbox = (element: Element): Element | null => {
+  if (getPrimaryRole(element) === "listbox") return element;
+  const ids = `${element.getAttribute("aria-controls") || ""} ${element.getAttribute("aria-owns") || ""}`
+    .split(/\s+/)
+    .filter(Boolean);
+  for (const id of ids) {
+    const referenced = element.ownerDocument.getElementById(id);
+    if (referenced) return referenced;
+  }
+  return null;
+};
 
-/** Get a human-readable label for an element. */
+const formatOptionList = (labels: string[]): string => {
+  const cleaned = labels.map((label) => normalizeWhitespace(label)).filter(Boolean);
+  if (cleaned.length === 0) return "";
+  const shown = cleaned.slice(0, MAX_SELECT_OPTIONS).map((label) => label.substring(0, 40));
+  const overflow = cleaned.length - shown.length;
+  return ` options=[${shown.join(" | ")}${overflow > 0 ? ` | +${overflow} more` : ""}]`;
+};
+
+/** ` options=[a | b | c]` for native selects and ARIA listboxes / comboboxes. */
+export const getSelectOptionsNote = (element: Element): string => {
+  if (isInstanceOf(element, HTMLSelectElement)) {
+    return formatOptionList(Array.from(element.options).map((option) => option.text));
+  }
+  const listbox = getOwnedListbox(element);
+  if (!listbox) return "";
+  return formatOptionList(
+    Array.from(listbox.querySelectorAll('[role="option"]')).map(
+      (option) => option.getAttribute("aria-label") || option.textContent || "",
+    ),
+  );
+};
+
+/**
+ * Get a human-readable label for an element: its accessible name, falling
+ * back to visible text and authoring attributes when the name is empty.
+ */
 export const getElementLabel = (element: Element): string => {
+  const accessibleName = computeAccessibleName(element).substring(0, 80);
   const text = normalizeWhitespace(
-    (element instanceof HTMLElement ? element.innerText : element.textContent) || "",
+    (isInstanceOf(element, HTMLElement) ? element.innerText : element.textContent) || "",
   ).substring(0, 80);
-  const ariaLabel = normalizeWhitespace(element.getAttribute("aria-label") || "");
-  const title = normalizeWhitespace(element.getAttribute("title") || "");
-  const placeholder = normalizeWhitespace(element.getAttribute("placeholder") || "");
   const name = normalizeWhitespace(element.getAttribute("name") || "");
   const value =
-    element instanceof HTMLInputElement ||
-    element instanceof HTMLTextAreaElement ||
-    element instanceof HTMLButtonElement
+    isInstanceOf(element, HTMLInputElement) ||
+    isInstanceOf(element, HTMLTextAreaElement) ||
+    isInstanceOf(element, HTMLButtonElement)
       ? normalizeWhitespace(element.value || "")
       : "";
 
-  const label = text || ariaLabel || title || placeholder || value || name || "";
   const tag = element.tagName.toLowerCase();
 
   if (tag === "img") {
-    const alt = normalizeWhitespace(element.getAttribute("alt") || "");
-    if (alt) return alt;
+    if (accessibleName) return accessibleName;
     const src = element.getAttribute("src") || "";
     const filename = src.split("/").pop()?.split("?")[0] || "";
     return filename ? `img: ${filename}` : compactOuterHtml(element);
   }
 
-  if (tag === "svg") return ariaLabel || title || "icon";
+  if (tag === "svg") return accessibleName || "icon";
+
+  const label = accessibleName || text || value || name || "";
 
   if (tag === "input") {
     const inputType = element.getAttribute("type") || "text";
-    const currentValue = element instanceof HTMLInputElement ? element.value : "";
+    const currentValue = isInstanceOf(element, HTMLInputElement) ? element.value : "";
     const valueNote = currentValue ? ` val="${currentValue.substring(0, 40)}"` : "";
     return `${inputType} ${label || "input"}${valueNote}`;
   }
 
   if (tag === "textarea") {
-    const currentValue = element instanceof HTMLTextAreaElement ? element.value : "";
+    const currentValue = isInstanceOf(element, HTMLTextAreaElement) ? element.value : "";
     const valueNote = currentValue ? ` val="${currentValue.substring(0, 40)}"` : "";
     return `textarea ${label || "textarea"}${valueNote}`;
   }
@@ -46,7 +85,17 @@ export const getElementLabel = (element: Element): string => {
     const selectEl = element as HTMLSelectElement;
     const selectedText = selectEl.selectedOptions?.[0]?.textContent?.trim() || "";
     const valueNote = selectedText ? ` val="${selectedText}"` : "";
-    return `select ${label || "select"}${valueNote}`;
+    // The select's own text is the concatenation of every option; skip it.
+    const selectLabel = accessibleName || name;
+    return `select ${selectLabel || "select"}${valueNote}${getSelectOptionsNote(element)}`;
+  }
+
+  const role = getPrimaryRole(element);
+  if (role === "listbox") {
+    return `${accessibleName || "listbox"}${getSelectOptionsNote(element)}`;
+  }
+  if (role === "combobox") {
+    return `${label || "combobox"}${getSelectOptionsNote(element)}`;
   }
 
   if (label) return label;
@@ -92,6 +141,40 @@ export const describeElementType = (element: Element): string => {
   return role ? `${role[0].toUpperCase()}${role.slice(1)}` : `<${tag}>`;
 };
 
+/** Short `Type: "label"` descriptor used in summaries and tool results. */
+export const describeElement = (element: Element): string =>
+  `${describeElementType(element)}: "${getElementLabel(element)}"`;
+
+export const isElementDisabled = (element: Element): boolean =>
+  element.hasAttribute("disabled") || element.getAttribute("aria-disabled") === "true";
+
+export type CheckedState = boolean | "mixed";
+
+const CHECKABLE_ROLES = new Set([
+  "checkbox",
+  "switch",
+  "radio",
+  "menuitemcheckbox",
+  "menuitemradio",
+]);
+
+/**
+ * Checked state of native checkboxes / radios and ARIA checkable roles.
+ * Returns undefined for elements that cannot be checked.
+ */
+export const isElementChecked = (element: Element): CheckedState | undefined => {
+  if (isInstanceOf(element, HTMLInputElement) && (element.type === "checkbox" || element.type === "radio")) {
+    if (element.indeterminate) return "mixed";
+    return element.checked;
+  }
+
+  const role = element.getAttribute("role");
+  if (!role || !CHECKABLE_ROLES.has(role)) return undefined;
+  const checked = element.getAttribute("aria-checked");
+  if (checked === "mixed") return "mixed";
+  return checked === "true";
+};
+
 /** Collect ARIA / state attributes into a list of human-readable tokens. */
 export const getElementState = (element: Element): string[] => {
   const states: string[] = [];
@@ -107,15 +190,11 @@ export const getElementState = (element: Element): string[] => {
   const selected = element.getAttribute("aria-selected");
   if (selected === "true") states.push("Selected");
 
-  if (element instanceof HTMLInputElement) {
-    if (element.type === "checkbox" || element.type === "radio") {
-      states.push(element.checked ? "Checked" : "Unchecked");
-    }
-  }
+  const checked = isElementChecked(element);
+  if (checked === "mixed") states.push("Mixed");
+  else if (checked !== undefined) states.push(checked ? "Checked" : "Unchecked");
 
-  if (element.hasAttribute("disabled") || element.getAttribute("aria-disabled") === "true") {
-    states.push("Disabled");
-  }
+  if (isElementDisabled(element)) states.push("Disabled");
 
   return states;
 };
@@ -0,0 +1,205 @@
+import { normalizeWhitespace, getPrimaryRole } from "./helpers";
+import { MAX_ID_FINGERPRINTS } from "./config";
+import { isInstanceOf, getTreeHost } from "./domTraversal";
+
+// ── ID registry (DOM-agnostic) ──────────────────────────────────────
+
+export interface ElementIdRegistry<T extends object> {
+  /** ID for `element`, reusing its own ID or that of a dead element with the same fingerprint. */
+  assign: (element: T, fingerprint: string) => number;
+  /** The live element bound to `id`, if any. */
+  lookup: (id: number) => T | undefined;
+  /** True when `id` was handed out but no longer points at a live element. */
+  isStale: (id: number) => boolean;
+  /** Forget dead elements; their fingerprints are kept so a re-render can reclaim the ID. */
+  prune: () => void;
+}
+
+/**
+ * Stable element IDs. A node keeps its ID for as long as it lives (WeakMap);
+ * a node replacing a dead one with the same fingerprint (a re-render)
+ * inherits its ID. IDs are never reused for anything else, so an old ID
+ * either resolves to the same logical element or is reported as stale.
+ */
+export const createElementIdRegistry = <T extends object>(
+  isAlive: (element: T) => boolean,
+  maxFingerprints: number = MAX_ID_FINGERPRINTS,
+): ElementIdRegistry<T> => {
+  const byElement = new WeakMap<T, number>();
+  const byFingerprint = new Map<string, number>();
+  const fingerprints = new Map<number, string>();
+  const elements = new Map<number, T>();
+  let lastId = 0;
+
+  // Re-insert so the map stays ordered by last use, then drop the least recently used.
+  const remember = <K, V>(map: Map<K, V>, key: K, value: V) => {
+    map.delete(key);
+    map.set(key, value);
+    while (map.size > maxFingerprints) {
+      map.delete(map.keys().next().value as K);
+    }
+  };
+
+  const bind = (id: number, element: T, fingerprint: string) => {
+    const previous = fingerprints.get(id);
+    if (previous !== undefined && previous !== fingerprint && byFingerprint.get(previous) === id) {
+      byFingerprint.delete(previous);
+    }
+    byElement.set(element, id);
+    elements.set(id, element);
+    remember(fingerprints, id, fingerprint);
+    remember(byFingerprint, fingerprint, id);
+    return id;
+  };
+
+  const lookup = (id: number): T | undefined => {
+    const element = elements.get(id);
+    return element !== undefined && isAlive(element) ? element : undefined;
+  };
+
+  return {
+    assign: (element, fingerprint) => {
+      const known = byElement.get(element);
+      if (known !== undefined) return bind(known, element, fingerprint);
+
+      const inherited = byFingerprint.get(fingerprint);
+      if (inherited !== undefined && lookup(inherited) === undefined) return bind(inherited, element, fingerprint);
+
+      lastId += 1;
+      return bind(lastId, element, fingerprint);
+    },
+    lookup,
+    isStale: (id) => Number.isInteger(id) && id >= 1 && id <= lastId && lookup(id) === undefined,
+    prune: () => {
+      for (const [id, element] of elements) {
+        if (!isAlive(element)) elements.delete(id);
+      }
+    },
+  };
+};
+
+// ── DOM fingerprints ────────────────────────────────────────────────
+
+const LANDMARK_SELECTOR = [
+  "main", "nav", "header", "footer", "aside", "form", "dialog",
+  "[role='main']", "[role='navigation']", "[role='banner']", "[role='contentinfo']",
+  "[role='complementary']", "[role='search']", "[role='form']", "[role='region']",
+  "[role='dialog']", "[role='alertdialog']",
+].join(", ");
+
+const FINGERPRINT_NAME_LENGTH = 60;
+
+/**
+ * Name that does not change while the user works with the element: labels
+ * and authoring attributes, never the current value of a field.
+ */
+const getFingerprintName = (element: Element): string => {
+  const labelledBy = (element.getAttribute("aria-labelledby") || "")
+    .split(/\s+/)
+    .filter(Boolean)
+    .map((id) => element.ownerDocument.getElementById(id)?.textContent || "")
+    .join(" ");
+  const labels = "labels" in element && element.labels
+    ? Array.from(element.labels as NodeListOf<HTMLLabelElement>).map((label) => label.textContent || "").join(" ")
+    : "";
+  const isField = isInstanceOf(element, HTMLInputElement) || isInstanceOf(element, HTMLTextAreaElement) || isInstanceOf(element, HTMLSelectElement);
+
+  const name =
+    element.getAttribute("aria-label") ||
+    labelledBy ||
+    labels ||
+    element.getAttribute("placeholder") ||
+    element.getAttribute("name") ||
+    element.getAttribute("alt") ||
+    element.getAttribute("title") ||
+    (isField ? "" : element.textContent) ||
+    "";
+  return normalizeWhitespace(name).slice(0, FINGERPRINT_NAME_LENGTH);
+};
+
+/** 1-based position among same-tag siblings; 0 when no sibling shares the tag. */
+const getSameTagIndex = (element: Element): number => {
+  let index = 1;
+  for (let sibling = element.previousElementSibling; sibling; sibling = sibling.previousElementSibling) {
+    if (sibling.tagName === element.tagName) index += 1;
+  }
+  if (index > 1) return index;
+  for (let sibling = element.nextElementSibling; sibling; sibling = sibling.nextElementSibling) {
+    if (sibling.tagName === element.tagName) return 1;
+  }
+  return 0;
+};
+
+/** Paths of ancestors already walked in the current scan (see `withDomPathCache`). */
+let domPathCache: Map<Element, string> | null = null;
+
+/** Path within the element's own tree (document body or shadow root). */
+const getLocalPath = (element: Element): string => {
+  if (element === element.ownerDocument.body) return "";
+  const cached = domPathCache?.get(element);
+  if (cached !== undefined) return cached;
+
+  const tag = element.tagName.toLowerCase();
+  const index = getSameTagIndex(element);
+  const part = index > 0 ? `${tag}:${index}` : tag;
+  const parentPath = element.parentElement ? getLocalPath(element.parentElement) : "";
+  const path = parentPath ? `${parentPath}>${part}` : part;
+  domPathCache?.set(element, path);
+  return path;
+};
+
+/**
+ * `body>div:2>ul>li:3>button` — tag plus position among same-tag siblings.
+ * Shadow and frame content is prefixed with its host's path (`…>x-card/button`).
+ */
+const getDomPath = (element: Element): string => {
+  const host = getTreeHost(element);
+  const local = getLocalPath(element);
+  return host ? `${getDomPath(host)}/${local}` : local;
+};
+
+/**
+ * Run `scan` with ancestor paths shared between the elements it fingerprints.
+ * Only valid while the DOM does not change, so the cache ends with the scan.
+ */
+export const withDomPathCache = <T>(scan: () => T): T => {
+  if (domPathCache) return scan();
+  domPathCache = new Map();
+  try {
+    return scan();
+  } finally {
+    domPathCache = null;
+  }
+};
+
+const getLandmark = (element: Element): string => {
+  const landmark = element.parentElement?.closest(LANDMARK_SELECTOR);
+  if (!landmark) return "";
+  const role = getPrimaryRole(landmark) || landmark.tagName.toLowerCase();
+  const label = normalizeWhitespace(landmark.getAttribute("aria-label") || "");
+  return label ? `${role}:${label}` : role;
+};
+
+/** Role, name, DOM path and landmark — what identifies an element across re-renders. */
+export const computeElementFingerprint = (element: Element): string => {
+  const role = getPrimaryRole(element) || element.tagName.toLowerCase();
+  const type = isInstanceOf(element, HTMLInputElement) ? `[${element.type}]` : "";
+  return [`${role}${type}`, getFingerprintName(element), getDomPath(element), getLandmark(element)].join("|");
+};
+
+// Frame content stays connected to its document after the frame is removed;
+// a detached frame document has no window.
+const domRegistry = createElementIdRegistry<Element>(
+  (element) => element.isConnected && element.ownerDocument.defaultView !== null,
+);
+
+/** Stable ID of a DOM element; the same element keeps it across scans. */
+export const assignElementId = (element: Element): number =>
+  domRegistry.assign(element, computeElementFingerprint(element));
+
+export const lookupElementId = (id: number): Element | undefined => domRegistry.lookup(id);
+
+/** True when `id` was handed out but its element has left the page. */
+export const isStaleElementId = (id: number): boolean => domRegistry.isStale(id);
+
+export const pruneElementIds = (): void => domRegistry.prune();
@@ -1,22 +1,59 @@
 import type { PageContext, CachedPageContextEntry } from "./types";
 import { canonicalUrl } from "./helpers";
 import {
+  PAGE_CONTEXT_CACHE_VERSION,
   ensureCacheHydrated,
   getCachedEntry,
   storeCacheEntry,
   buildSummaryWithHistory,
 } from "./cache";
-import { collectSemanticElements, collectTextSnippets, collectHeadings } from "./scanner";
+import {
+  collectSemanticElements,
+  collectTextSnippets,
+  collectHeadings,
+  formatScanSections,
+} from "./scanner";
+import { collectTableSummaries } from "./tables";
+import { assignElementId, lookupElementId, isStaleElementId } from "./elementIds";
+import { getFrameSnapshots } from "../bridge/parent";
+import { scopeElementReferences, type FrameSnapshot } from "../bridge/protocol";
+
+/**
+ * Look up a DOM element by its semantic-map ID. When the element was
+ * re-rendered since the last scan, a rescan lets the new node reclaim the ID.
+ */
+export const getElementById = (id: number): Element | undefined => {
+  const element = lookupElementId(id);
+  if (element || !isStaleElementId(id)) return element;
+  collectSemanticElements();
+  return lookupElementId(id);
+};
+
+/**
+ * Give `element` a stable ID, so tools can hand out IDs for content the
+ * scanner does not list, like text blocks found by search.
+ */
+export const registerElement = (element: Element): number => assignElementId(element);
 
 /**
- * Live element map — maps numeric IDs to DOM elements.
- * Rebuilt on every page context scan; NOT serialised to cache.
+ * Elements the scanner would currently list, without replacing the live
+ * map. Pair with `listRevealedInteractables` to see what an action exposed.
  */
-let liveElementMap = new Map<number, Element>();
+export const captureScannedElements = (): Set<Element> =>
+  new Set(collectSemanticElements().elementMap.values());
 
-/** Look up a DOM element by its semantic-map ID. */
-export const getElementById = (id: number): Element | undefined =>
-  liveElementMap.get(id);
+const LINE_ID_PATTERN = /^- \[(\d+)\]/;
+
+/** Summary lines of the context whose elements were not in `before`. */
+export const listRevealedInteractables = (
+  before: Set<Element>,
+  context: PageContext,
+): string[] =>
+  [...context.links, ...context.interactables].filter((line) => {
+    const id = Number(line.match(LINE_ID_PATTERN)?.[1]);
+    const element = context.elementMap.get(id);
+    return element !== undefined && !before.has(element);
+  });
 
 const formatSection = (title: string, lines: string[]): string => {
   if (lines.length === 0) return `${title}:\n- none`;
@@ -31,6 +68,7 @@ export const buildPageContextSummary = (
   links: string[],
   interactables: string[],
   textSnippets: string[],
+  tables: string[] = [],
 ): string => {
   const sections = [
     formatSection("Page", [
@@ -40,6 +78,8 @@ export const buildPageContextSummary = (
     ]),
     formatSection("Headings", headings),
     formatSection("Content Snippets", textSnippets),
+    // Only pages with data tables get the section.
+    ...(tables.length > 0 ? [formatSection("Tables", tables)] : []),
     formatSection("Links", links),
     formatSection("Interactive Elements", interactables),
   ];
@@ -47,6 +87,25 @@ export const buildPageContextSummary = (
   return sections.join("\n\n");
 };
 
+/**
+ * One section per cross-origin frame connected through the frame bridge.
+ * Its element IDs are frame-scoped (`[f1:12]`) so calls route to the frame.
+ */
+export const formatFrameSection = (frame: number, snapshot: FrameSnapshot): string => {
+  const title = snapshot.title ? ` "${snapshot.title}"` : "";
+  const lines = [...snapshot.headings, ...snapshot.links, ...snapshot.interactables];
+  return formatSection(
+    `Frame f${frame}${title} (${snapshot.url})`,
+    lines.map((line) => scopeElementReferences(line, frame)),
+  );
+};
+
+/** Frame sections are live, so they are appended outside the per-URL cache. */
+const withFrameSections = (summary: string): string => {
+  const sections = getFrameSnapshots().map(({ frame, snapshot }) => formatFrameSection(frame, snapshot));
+  return [summary, ...sections].join("\n\n");
+};
+
 export const getPageContext = (forceRefresh: boolean = false): PageContext => {
   if (typeof window === "undefined" || typeof document === "undefined") {
     return { links: [], interactables: [], summary: "", elementMap: new Map() };
@@ -55,9 +114,8 @@ export const getPageContext = (forceRefresh: boolean = false): PageContext => {
   ensureCacheHydrated();
   const url = canonicalUrl(window.location.href);
 
-  // Always rebuild the live element map (it holds DOM references)
+  // Always rescan: it binds IDs to the current DOM nodes.
   const scan = collectSemanticElements();
-  liveElementMap = scan.elementMap;
 
   if (!forceRefresh) {
     const cached = getCachedEntry(url);
@@ -66,8 +124,8 @@ export const getPageContext = (forceRefresh: boolean = false): PageContext => {
       return {
         links: cached.links,
         interactables: cached.interactables,
-        summary: buildSummaryWithHistory(cached),
-        elementMap: liveElementMap,
+        summary: withFrameSections(buildSummaryWithHistory(cached)),
+        elementMap: scan.elementMap,
       };
     }
   }
@@ -75,24 +133,26 @@ export const getPageContext = (forceRefresh: boolean = false): PageContext => {
   console.info(`[Autic] context cache miss url=${url}`);
 
   const headings = collectHeadings();
+  const { links, interactables } = formatScanSections(scan.records);
 
   const summary = buildPageContextSummary(
     url,
     document.title,
     document.documentElement.lang,
     headings,
-    scan.links,
-    scan.interactables,
+    links,
+    interactables,
     collectTextSnippets(),
+    collectTableSummaries(),
   );
 
   const entry: CachedPageContextEntry = {
     url,
     summary,
-    links: scan.links,
-    interactables: scan.interactables,
+    links,
+    interactables,
     capturedAt: Date.now(),
-    version: 4,
+    version: PAGE_CONTEXT_CACHE_VERSION,
   };
 
   storeCacheEntry(entry);
@@ -101,7 +161,7 @@ export const getPageContext = (forceRefresh: boolean = false): PageContext => {
   return {
     links: entry.links,
     interactables: entry.interactables,
-    summary: buildSummaryWithHistory(entry),
-    elementMap: liveElementMap,
+    summary: withFrameSections(buildSummaryWithHistory(entry)),
+    elementMap: scan.elementMap,
   };
 };
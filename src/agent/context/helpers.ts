@@ -1,4 +1,5 @@
 import { NATIVE_INTERACTIVE_TAGS, INTERACTIVE_ROLES } from "./tagSets";
+import { isInstanceOf, getElementWindow, getComposedParent } from "./domTraversal";
 
 export const normalizeWhitespace = (value: string): string =>
   value.replace(/\s+/g, " ").trim();
@@ -26,9 +27,9 @@ export const getPrimaryRole = (element: Element): string => {
 
 export const isVisible = (element: Element): boolean => {
   if (element.getAttribute("aria-hidden") === "true") return false;
-  if (element instanceof HTMLElement && element.hidden) return false;
+  if (isInstanceOf(element, HTMLElement) && element.hidden) return false;
 
-  const style = window.getComputedStyle(element);
+  const style = getElementWindow(element).getComputedStyle(element);
   if (style.display === "none" || style.visibility === "hidden") return false;
 
   const rect = element.getBoundingClientRect();
@@ -37,23 +38,25 @@ export const isVisible = (element: Element): boolean => {
 
 /**
  * Returns true if the element is nested inside an interactive parent
- * (e.g. a `<span>` or `<img>` inside a `<button>` or `<a>`).
+ * (e.g. a `<span>` or `<img>` inside a `<button>` or `<a>`). Shadow roots
+ * are crossed, so a control inside an interactive custom element counts.
  */
 export const hasInteractiveAncestor = (element: Element): boolean => {
-  let parent = element.parentElement;
-  while (parent && parent !== document.body) {
+  const { body } = element.ownerDocument;
+  let parent = getComposedParent(element);
+  while (parent && parent !== body) {
     const parentTag = parent.tagName.toLowerCase();
     if (NATIVE_INTERACTIVE_TAGS.has(parentTag)) return true;
     const parentRole = getPrimaryRole(parent);
     if (INTERACTIVE_ROLES.has(parentRole)) return true;
-    parent = parent.parentElement;
+    parent = getComposedParent(parent);
   }
   return false;
 };
 
-export const toAbsoluteUrl = (href: string): string => {
+export const toAbsoluteUrl = (href: string, base: string = window.location.href): string => {
   try {
-    return new URL(href, window.location.href).href;
+    return new URL(href, base).href;
   } catch {
     return href;
   }
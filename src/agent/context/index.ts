@@ -1,4 +1,62 @@
-export { MAX_LINKS, MAX_INTERACTABLES, MAX_HEADINGS, MAX_TEXT_SNIPPETS, MAX_CACHED_PAGES, MAX_PAGE_SCAN_ELEMENTS } from "./config";
-export type { PageContext, CachedPageContextEntry } from "./types";
+export { MAX_LINKS, MAX_INTERACTABLES, MAX_HEADINGS, MAX_SELECT_OPTIONS, MAX_TEXT_SNIPPETS, MAX_CACHED_PAGES, MAX_PAGE_SCAN_ELEMENTS, MAX_FIND_RESULTS, READ_CHUNK_CHARS, MAX_TABLES, TABLE_ROWS_PER_PAGE } from "./config";
+export type { PageContext, CachedPageContextEntry, ElementRecord, SemanticScanResult } from "./types";
+export { formatElementRecord, formatScanSections, collectHeadings } from "./scanner";
 export { PAGE_CONTEXT_CACHE_VERSION, PAGE_CONTEXT_CACHE_KEY, clearPageContextCache, getCachedPageContexts, invalidateCurrentPageContext } from "./cache";
-export { getPageContext, getElementById, buildPageContextSummary } from "./getPageContext";
+export {
+  getPageContext,
+  getElementById,
+  buildPageContextSummary,
+  captureScannedElements,
+  listRevealedInteractables,
+  registerElement,
+} from "./getPageContext";
+export { isStaleElementId, createElementIdRegistry, computeElementFingerprint } from "./elementIds";
+export type { ElementIdRegistry } from "./elementIds";
+export {
+  describeElement,
+  getElementState,
+  isElementChecked,
+  isElementDisabled,
+} from "./elementDescriptors";
+export type { CheckedState } from "./elementDescriptors";
+export { computeAccessibleName, computeAccessibleDescription, getImplicitRole } from "./accessibleName";
+export {
+  isInstanceOf,
+  getElementWindow,
+  getFrameDocument,
+  getFrameElement,
+  getFrameOffset,
+  getTreeHost,
+  getComposedParent,
+  collectDeepElements,
+  deepQuerySelector,
+  deepQuerySelectorAll,
+  deepElementFromPoint,
+  isBulutHost,
+  getDeepActiveElement,
+} from "./domTraversal";
+export {
+  findInPage,
+  formatFindMatch,
+  normalizeForSearch,
+  scoreTextMatch,
+  excerptAround,
+} from "./search";
+export type { FindMatch } from "./search";
+export {
+  chunkText,
+  extractStructuredText,
+  extractHeadingSection,
+  findHeadingByText,
+  getMainContentRoot,
+  isHeadingElement,
+} from "./reader";
+export {
+  expandTableGrid,
+  deriveColumnHeaders,
+  readTableElement,
+  formatTableRow,
+  collectTableSummaries,
+  findEnclosingTable,
+} from "./tables";
+export type { TableCellSpec, TableData, TableRow } from "./tables";
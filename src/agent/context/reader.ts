@@ -0,0 +1,279 @@
+import { NON_CONTENT_TAGS } from "./tagSets";
+import { normalizeWhitespace, isVisible } from "./helpers";
+import { READ_CHUNK_CHARS } from "./config";
+import { scoreTextMatch } from "./search";
+import { isInstanceOf, getElementWindow } from "./domTraversal";
+
+// ── Paging (pure) ───────────────────────────────────────────────────
+
+const splitLongLine = (line: string, size: number): string[] => {
+  const pieces: string[] = [];
+  let rest = line;
+  while (rest.length > size) {
+    const head = rest.slice(0, size);
+    const sentenceEnd = Math.max(head.lastIndexOf(". "), head.lastIndexOf("! "), head.lastIndexOf("? "));
+    const space = head.lastIndexOf(" ");
+    // Prefer sentence, then word boundaries, unless they would leave a tiny piece.
+    let cut = size;
+    if (sentenceEnd > size / 2) cut = sentenceEnd + 1;
+    else if (space > size / 2) cut = space;
+    pieces.push(rest.slice(0, cut).trimEnd());
+    rest = rest.slice(cut).trimStart();
+  }
+  if (rest) pieces.push(rest);
+  return pieces;
+};
+
+/**
+ * Split text into pages of at most `size` characters, breaking between
+ * lines where possible so lists and table rows stay intact.
+ */
+export const chunkText = (text: string, size: number = READ_CHUNK_CHARS): string[] => {
+  const chunks: string[] = [];
+  let current = "";
+
+  for (const line of text.split("\n").flatMap((item) => splitLongLine(item, size))) {
+    const candidate = current ? `${current}\n${line}` : line;
+    if (candidate.length > size && current) {
+      chunks.push(current.trim());
+      current = line;
+    } else {
+      current = candidate;
+    }
+  }
+  if (current.trim()) chunks.push(current.trim());
+  return chunks;
+};
+
+// ── Structured text extraction ──────────────────────────────────────
+
+const BLOCK_TAGS = new Set([
+  "p", "div", "section", "article", "header", "footer", "main", "aside", "nav",
+  "blockquote", "figure", "figcaption", "details", "summary", "form", "fieldset",
+  "address", "dl", "dt", "dd", "hr", "caption", "legend",
+]);
+
+const SKIPPED_TAGS = new Set(["input", "select", "textarea", "button", "svg", "canvas", "iframe"]);
+
+interface RenderState {
+  lines: string[];
+  inline: string;
+  /** Marker for the next flushed line (list bullet); later lines are indented. */
+  prefix: string;
+  indent: string;
+  include: (node: Node) => boolean;
+}
+
+const flush = (state: RenderState) => {
+  const text = normalizeWhitespace(state.inline);
+  state.inline = "";
+  if (!text) return;
+  state.lines.push(`${state.indent}${state.prefix}${text}`);
+  if (state.prefix) {
+    state.indent += " ".repeat(state.prefix.length);
+    state.prefix = "";
+  }
+};
+
+const blankLine = (state: RenderState) => {
+  if (state.lines.length > 0 && state.lines[state.lines.length - 1] !== "") state.lines.push("");
+};
+
+const getHeadingLevel = (element: Element): number | null => {
+  const match = element.tagName.match(/^H([1-6])$/);
+  if (match) return Number(match[1]);
+  if (element.getAttribute("role") === "heading") {
+    return Number(element.getAttribute("aria-level")) || 2;
+  }
+  return null;
+};
+
+const isRenderable = (element: Element): boolean => {
+  const tag = element.tagName.toLowerCase();
+  if (NON_CONTENT_TAGS.has(tag) || SKIPPED_TAGS.has(tag)) return false;
+  if (element.getAttribute("aria-hidden") === "true") return false;
+  if (isInstanceOf(element, HTMLElement) && element.hidden) return false;
+  const style = getElementWindow(element).getComputedStyle(element);
+  return style.display !== "none" && style.visibility !== "hidden";
+};
+
+// Mutually recursive with renderElement (declared below, called at runtime).
+const renderChildren = (element: Element, state: RenderState) => {
+  for (const child of element.childNodes) {
+    if (child.nodeType === Node.TEXT_NODE) {
+      if (state.include(child)) state.inline += child.textContent || "";
+    } else if (isInstanceOf(child, Element)) {
+      renderElement(child, state);
+    }
+  }
+};
+
+const renderInlineText = (element: Element, state: RenderState): string => {
+  const inner: RenderState = { lines: [], inline: "", prefix: "", indent: "", include: state.include };
+  renderChildren(element, inner);
+  flush(inner);
+  return inner.lines.map((line) => line.trim()).filter(Boolean).join(" ");
+};
+
+const renderTable = (table: Element, state: RenderState) => {
+  flush(state);
+  blankLine(state);
+  const caption = table.querySelector("caption");
+  if (caption) state.lines.push(`${state.indent}Table: ${renderInlineText(caption, state)}`);
+
+  let headerWritten = false;
+  for (const row of table.querySelectorAll("tr")) {
+    if (row.closest("table") !== table || !isRenderable(row)) continue;
+    const cells = Array.from(row.children).filter((cell) => cell.tagName === "TD" || cell.tagName === "TH");
+    const texts = cells.map((cell) => renderInlineText(cell, state).replace(/\|/g, "/"));
+    if (texts.every((text) => !text)) continue;
+    state.lines.push(`${state.indent}| ${texts.join(" | ")} |`);
+    if (!headerWritten && cells.every((cell) => cell.tagName === "TH")) {
+      state.lines.push(`${state.indent}|${texts.map(() => " --- ").join("|")}|`);
+    }
+    headerWritten = true;
+  }
+  blankLine(state);
+};
+
+const isListItem = (element: Element): boolean =>
+  element.tagName === "LI" || element.getAttribute("role") === "listitem";
+
+const renderList = (list: Element, state: RenderState) => {
+  flush(state);
+  const ordered = list.tagName === "OL";
+  const start = Number(list.getAttribute("start")) || 1;
+  const outerIndent = state.indent;
+  let index = 0;
+
+  for (const child of list.children) {
+    state.indent = outerIndent;
+    // Anything that is not an item (a heading, a wrapper) is still content.
+    if (!isListItem(child)) {
+      renderElement(child, state);
+      flush(state);
+      continue;
+    }
+    if (!isRenderable(child)) continue;
+    state.prefix = ordered ? `${start + index}. ` : "- ";
+    index += 1;
+    renderChildren(child, state);
+    flush(state);
+  }
+  state.indent = outerIndent;
+  state.prefix = "";
+};
+
+const renderElement = (element: Element, state: RenderState) => {
+  if (!isRenderable(element)) return;
+  const tag = element.tagName.toLowerCase();
+
+  const level = getHeadingLevel(element);
+  if (level !== null) {
+    flush(state);
+    const text = renderInlineText(element, state);
+    if (text) {
+      blankLine(state);
+      state.lines.push(`${"#".repeat(level)} ${text}`);
+    }
+    return;
+  }
+
+  if (tag === "ul" || tag === "ol" || element.getAttribute("role") === "list") {
+    renderList(element, state);
+    return;
+  }
+  if (tag === "table") {
+    renderTable(element, state);
+    return;
+  }
+  if (tag === "br") {
+    flush(state);
+    return;
+  }
+  if (tag === "pre") {
+    flush(state);
+    if (state.include(element)) {
+      for (const line of (element.textContent || "").split("\n")) state.lines.push(`${state.indent}${line}`);
+    }
+    return;
+  }
+  if (tag === "img") {
+    const alt = normalizeWhitespace(element.getAttribute("alt") || "");
+    if (alt && state.include(element)) state.inline += ` [image: ${alt}] `;
+    return;
+  }
+
+  const isBlock = BLOCK_TAGS.has(tag) || tag === "li";
+  if (isBlock) flush(state);
+  renderChildren(element, state);
+  if (isBlock) flush(state);
+  if (tag === "p" || tag === "blockquote") blankLine(state);
+};
+
+/**
+ * Render `root` as plain structured text: `#` headings, `-` / `1.` list
+ * items and `| a | b |` table rows. `include` limits output to part of the
+ * subtree (used for heading sections).
+ */
+export const extractStructuredText = (
+  root: Element,
+  include: (node: Node) => boolean = () => true,
+): string => {
+  const state: RenderState = { lines: [], inline: "", prefix: "", indent: "", include };
+  renderElement(root, state);
+  flush(state);
+  return state.lines.join("\n").replace(/\n{3,}/g, "\n\n").trim();
+};
+
+// ── Heading sections ────────────────────────────────────────────────
+
+const HEADING_SELECTOR = "h1, h2, h3, h4, h5, h6, [role='heading']";
+
+export const isHeadingElement = (element: Element): boolean => getHeadingLevel(element) !== null;
+
+/**
+ * Text of the section a heading introduces: everything after it up to the
+ * next heading of the same or a higher level.
+ */
+export const extractHeadingSection = (heading: Element): string => {
+  const level = getHeadingLevel(heading) ?? 6;
+  const document = heading.ownerDocument;
+  const headings = Array.from(document.querySelectorAll(HEADING_SELECTOR));
+  const next = headings.find(
+    (candidate) =>
+      candidate !== heading &&
+      heading.compareDocumentPosition(candidate) & Node.DOCUMENT_POSITION_FOLLOWING &&
+      !heading.contains(candidate) &&
+      (getHeadingLevel(candidate) ?? 6) <= level &&
+      isVisible(candidate),
+  );
+
+  const range = document.createRange();
+  range.setStartBefore(heading);
+  if (next) range.setEndBefore(next);
+  else range.setEndAfter(document.body.lastChild ?? document.body);
+
+  const container = range.commonAncestorContainer;
+  const root = isInstanceOf(container, Element) ? container : container.parentElement ?? document.body;
+  return extractStructuredText(root, (node) => range.intersectsNode(node));
+};
+
+/** Best-matching visible heading for a heading text query. */
+export const findHeadingByText = (query: string): Element | null => {
+  let best: Element | null = null;
+  let bestScore = 0;
+  for (const heading of document.querySelectorAll(HEADING_SELECTOR)) {
+    if (!isVisible(heading)) continue;
+    const score = scoreTextMatch(query, heading.textContent || "");
+    if (score > bestScore) {
+      best = heading;
+      bestScore = score;
+    }
+  }
+  return best;
+};
+
+/** Element whose content is read when no target is given. */
+export const getMainContentRoot = (): Element =>
+  document.querySelector("main, article, [role='main']") ?? document.body;
@@ -13,9 +13,9 @@ import {
   parseTabIndex,
 } from "./helpers";
 import {
-  getElementLabel,
-  describeElementType,
+  describeElement,
   getElementState,
+  isElementDisabled,
 } from "./elementDescriptors";
 import {
   MAX_LINKS,
@@ -24,23 +24,15 @@ import {
   MAX_HEADINGS,
   MAX_PAGE_SCAN_ELEMENTS,
 } from "./config";
-import type { InteractableCandidate, SemanticScanResult } from "./types";
+import { assignElementId, pruneElementIds, withDomPathCache } from "./elementIds";
+import { collectDeepElements, getElementWindow } from "./domTraversal";
+import type { ElementRecord, SemanticScanResult } from "./types";
 
-/**
- * Scan the DOM and build a semantic element map.
- *
- * Every interactive element gets a numeric ID. The LLM uses these IDs
- * with `interact(id=N)` instead of fragile CSS selectors.
- */
-export const collectSemanticElements = (): SemanticScanResult => {
-  const allElements = Array.from(document.querySelectorAll("*"));
-  const sampledElements = allElements.slice(0, MAX_PAGE_SCAN_ELEMENTS);
+const scanSemanticElements = (): SemanticScanResult => {
+  const sampledElements = collectDeepElements(document, MAX_PAGE_SCAN_ELEMENTS);
 
-  const links: string[] = [];
-  const linkSet = new Set<string>();
-  const candidates: InteractableCandidate[] = [];
+  const records: ElementRecord[] = [];
   const elementMap = new Map<number, Element>();
-  let idCounter = 1;
 
   for (let order = 0; order < sampledElements.length; order += 1) {
     const element = sampledElements[order];
@@ -51,7 +43,7 @@ export const collectSemanticElements = (): SemanticScanResult => {
     if (!isVisible(element)) continue;
 
     const role = getPrimaryRole(element);
-    const style = window.getComputedStyle(element);
+    const style = getElementWindow(element).getComputedStyle(element);
     const href = element.getAttribute("href");
     const isNativeInteractive = NATIVE_INTERACTIVE_TAGS.has(tag) && (tag !== "a" || Boolean(href));
     const isRoleInteractive = INTERACTIVE_ROLES.has(role);
@@ -59,30 +51,14 @@ export const collectSemanticElements = (): SemanticScanResult => {
     const hasTabStop = tabIndex !== null && tabIndex >= 0;
     const hasPointerCursor = style.cursor === "pointer";
     const isContentEditable = element.getAttribute("contenteditable") === "true";
-    const isDisabled =
-      element.hasAttribute("disabled") ||
-      element.getAttribute("aria-disabled") === "true";
+    const isDisabled = isElementDisabled(element);
 
-    // ── Links ───────────────────────────────────────────────────
-    if (
+    const isNavigatingLink =
       tag === "a" &&
-      href &&
-      !href.startsWith("#") &&
-      !href.startsWith("javascript:")
-    ) {
-      const absoluteHref = toAbsoluteUrl(href);
-      const label = getElementLabel(element) || absoluteHref;
-      const id = idCounter++;
-      const line = `- [${id}] ${label} -> ${absoluteHref}`;
-
-      if (!linkSet.has(absoluteHref)) {
-        linkSet.add(absoluteHref);
-        links.push(line);
-        elementMap.set(id, element);
-      }
-    }
+      Boolean(href) &&
+      !href?.startsWith("#") &&
+      !href?.startsWith("javascript:");
 
-    // ── Interactables ───────────────────────────────────────────
     const hasInteractionSignals =
       isNativeInteractive ||
       isRoleInteractive ||
@@ -90,38 +66,78 @@ export const collectSemanticElements = (): SemanticScanResult => {
       hasTabStop ||
       hasPointerCursor;
 
-    if (!hasInteractionSignals || isDisabled) continue;
-    if (hasInteractiveAncestor(element)) continue;
+    // Links are listed even when disabled or nested; other controls are not.
+    const isControl = hasInteractionSignals && !isDisabled && !hasInteractiveAncestor(element);
+    if (!isNavigatingLink && !isControl) continue;
 
-    const id = idCounter++;
+    const id = assignElementId(element);
     elementMap.set(id, element);
+    records.push({
+      id,
+      element,
+      descriptor: describeElement(element),
+      href: isNavigatingLink && href ? toAbsoluteUrl(href, element.baseURI) : undefined,
+      states: getElementState(element),
+      score:
+        (isNativeInteractive ? 5 : 0) +
+        (isRoleInteractive ? 4 : 0) +
+        (hasTabStop ? 2 : 0) +
+        (hasPointerCursor ? 2 : 0) +
+        (isContentEditable ? 2 : 0),
+      order,
+    });
+  }
+
+  pruneElementIds();
+
+  return { records, elementMap };
+};
 
-    const elType = describeElementType(element);
-    const label = getElementLabel(element);
-    const stateTokens = getElementState(element);
-    const statePart = stateTokens.length > 0 ? ` (${stateTokens.join(", ")})` : "";
-    const line = `- [${id}] ${elType}: "${label}"${statePart}`;
+/**
+ * Scan the DOM and build a semantic element map.
+ *
+ * Every interactive element gets a numeric ID. The LLM uses these IDs
+ * with `interact(id=N)` instead of fragile CSS selectors. IDs are stable:
+ * an element keeps its ID across scans (see `elementIds`). Each element
+ * yields one record, so a link is never listed twice under two IDs.
+ * Open shadow roots and same-origin frames are scanned too.
+ */
+export const collectSemanticElements = (): SemanticScanResult => withDomPathCache(scanSemanticElements);
 
-    const score =
-      (isNativeInteractive ? 5 : 0) +
-      (isRoleInteractive ? 4 : 0) +
-      (hasTabStop ? 2 : 0) +
-      (hasPointerCursor ? 2 : 0) +
-      (isContentEditable ? 2 : 0);
+/** `- [id] Type: "label" -> href (states)` — one line per element. */
+export const formatElementRecord = (record: ElementRecord): string => {
+  const hrefPart = record.href ? ` -> ${record.href}` : "";
+  const statePart = record.states.length > 0 ? ` (${record.states.join(", ")})` : "";
+  return `- [${record.id}] ${record.descriptor}${hrefPart}${statePart}`;
+};
 
-    candidates.push({ id, line, score, order, element });
+/**
+ * Split records into the summary's Links and Interactive Elements sections.
+ * The first link to each URL goes under Links in document order; everything
+ * else is ranked by interaction signals. No element appears in both.
+ */
+export const formatScanSections = (
+  records: ElementRecord[],
+): { links: string[]; interactables: string[] } => {
+  const linkRecords: ElementRecord[] = [];
+  const controlRecords: ElementRecord[] = [];
+  const seenHrefs = new Set<string>();
+
+  for (const record of records) {
+    if (record.href && !seenHrefs.has(record.href) && linkRecords.length < MAX_LINKS) {
+      seenHrefs.add(record.href);
+      linkRecords.push(record);
+    } else {
+      controlRecords.push(record);
+    }
   }
 
-  const interactables = candidates
+  const interactables = controlRecords
     .sort((a, b) => b.score - a.score || a.order - b.order)
     .slice(0, MAX_INTERACTABLES)
-    .map((c) => c.line);
+    .map(formatElementRecord);
 
-  return {
-    links: links.slice(0, MAX_LINKS),
-    interactables,
-    elementMap,
-  };
+  return { links: linkRecords.map(formatElementRecord), interactables };
 };
 
 const TEXT_CONTENT_SELECTOR = [
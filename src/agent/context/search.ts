@@ -0,0 +1,228 @@
+import { NON_CONTENT_TAGS } from "./tagSets";
+import { normalizeWhitespace, isVisible } from "./helpers";
+import { describeElementType, getElementLabel } from "./elementDescriptors";
+import { computeAccessibleDescription } from "./accessibleName";
+import { MAX_FIND_RESULTS, FIND_CONTEXT_CHARS } from "./config";
+import { registerElement } from "./getPageContext";
+import { isInstanceOf } from "./domTraversal";
+
+// ── Text matching (pure) ────────────────────────────────────────────
+
+const TURKISH_FOLDS: Record<string, string> = {
+  ı: "i",
+  ğ: "g",
+  ü: "u",
+  ş: "s",
+  ö: "o",
+  ç: "c",
+};
+
+/**
+ * Lowercase with Turkish rules, then drop diacritics so "İADE", "iade" and
+ * "Iade" all compare equal, as do "şube" and "sube".
+ */
+export const normalizeForSearch = (text: string): string =>
+  text
+    .toLocaleLowerCase("tr")
+    .replace(/[ığüşöç]/g, (char) => TURKISH_FOLDS[char])
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "");
+
+export const tokenizeForSearch = (text: string): string[] =>
+  normalizeForSearch(text).split(/[^\p{L}\p{N}]+/u).filter(Boolean);
+
+const editDistance = (a: string, b: string): number => {
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i += 1) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j += 1) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1),
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+/**
+ * A query token matches a text token when it is a prefix of it (Turkish
+ * suffixes: "iade" → "iadesi") or within a small edit distance of its start.
+ */
+const tokenMatchScore = (queryToken: string, textToken: string): number => {
+  if (textToken === queryToken) return 1;
+  if (textToken.startsWith(queryToken)) return queryToken.length >= 3 ? 0.9 : 0;
+  if (queryToken.length < 4) return 0;
+  const allowed = queryToken.length >= 8 ? 2 : 1;
+  const distance = editDistance(queryToken, textToken.slice(0, queryToken.length));
+  return distance <= allowed ? 0.7 : 0;
+};
+
+/**
+ * Score how well `text` matches `query` in [0, 1]; 0 means no match. Every
+ * query token must match for queries of up to two tokens; longer queries
+ * tolerate one missing token.
+ */
+export const scoreTextMatch = (query: string, text: string): number => {
+  const queryTokens = tokenizeForSearch(query);
+  if (queryTokens.length === 0) return 0;
+  const textTokens = tokenizeForSearch(text);
+  if (textTokens.length === 0) return 0;
+
+  let total = 0;
+  let matched = 0;
+  for (const queryToken of queryTokens) {
+    let best = 0;
+    for (const textToken of textTokens) {
+      best = Math.max(best, tokenMatchScore(queryToken, textToken));
+      if (best === 1) break;
+    }
+    if (best > 0) matched += 1;
+    total += best;
+  }
+
+  const allowedMisses = queryTokens.length > 2 ? 1 : 0;
+  if (queryTokens.length - matched > allowedMisses) return 0;
+
+  // Token coverage is worth 0.8; the contiguous phrase earns the rest.
+  const phraseBonus = normalizeForSearch(text).includes(normalizeForSearch(query).trim()) ? 0.2 : 0;
+  return 0.8 * (total / queryTokens.length) + phraseBonus;
+};
+
+/**
+ * Cut a window of roughly `maxChars` around the first matching query token
+ * so long paragraphs still show the relevant part.
+ */
+export const excerptAround = (text: string, query: string, maxChars: number = FIND_CONTEXT_CHARS): string => {
+  if (text.length <= maxChars) return text;
+  const normalized = normalizeForSearch(text);
+  const anchor = tokenizeForSearch(query)
+    .map((token) => normalized.indexOf(token))
+    .filter((index) => index >= 0)
+    .sort((a, b) => a - b)[0] ?? 0;
+
+  const start = Math.max(0, Math.min(anchor - Math.floor(maxChars / 3), text.length - maxChars));
+  const end = start + maxChars;
+  return `${start > 0 ? "…" : ""}${text.slice(start, end).trim()}${end < text.length ? "…" : ""}`;
+};
+
+// ── DOM search ──────────────────────────────────────────────────────
+
+export interface FindMatch {
+  id: number;
+  element: Element;
+  score: number;
+  /** Where the match came from: visible text, accessible name or an attribute. */
+  source: string;
+  excerpt: string;
+  section?: string;
+}
+
+const BLOCK_SELECTOR = [
+  "p", "li", "h1", "h2", "h3", "h4", "h5", "h6", "td", "th", "dt", "dd",
+  "label", "button", "a", "summary", "figcaption", "caption", "blockquote",
+  "pre", "legend", "option",
+  "[role='heading']", "[role='button']", "[role='link']", "[role='listitem']",
+  "[role='cell']", "[role='gridcell']", "[role='option']", "[role='menuitem']",
+  "[role='tab']", "[role='alert']", "[role='status']",
+].join(", ");
+
+const HEADING_SELECTOR = "h1, h2, h3, h4, h5, h6, [role='heading']";
+
+const SEARCHED_ATTRIBUTES = ["aria-label", "title", "alt", "placeholder", "aria-description"];
+
+/** The element a text node is reported as: its nearest block-like ancestor. */
+const getTextBlock = (node: Text): Element | null => {
+  const parent = node.parentElement;
+  if (!parent) return null;
+  return parent.closest(BLOCK_SELECTOR) ?? parent;
+};
+
+const collectTextBlocks = (): Set<Element> => {
+  const blocks = new Set<Element>();
+  const walker = document.createTreeWalker(document.body, NodeFilter.SHOW_TEXT);
+  while (walker.nextNode()) {
+    const node = walker.currentNode as Text;
+    if (!node.data.trim()) continue;
+    const parentTag = node.parentElement?.tagName.toLowerCase() ?? "";
+    if (NON_CONTENT_TAGS.has(parentTag)) continue;
+    const block = getTextBlock(node);
+    if (block) blocks.add(block);
+  }
+  return blocks;
+};
+
+const findSectionHeading = (element: Element, headings: Element[]): string | undefined => {
+  let section: Element | undefined;
+  for (const heading of headings) {
+    if (heading === element || heading.contains(element)) continue;
+    if (heading.compareDocumentPosition(element) & Node.DOCUMENT_POSITION_FOLLOWING) section = heading;
+    else break;
+  }
+  return section ? normalizeWhitespace(section.textContent || "") || undefined : undefined;
+};
+
+const readBlockText = (element: Element): string =>
+  normalizeWhitespace(isInstanceOf(element, HTMLElement) ? element.innerText : element.textContent || "");
+
+/**
+ * Search visible text, accessible names and descriptive attributes for
+ * `query`. Matches get element IDs (registered on the fly for plain text
+ * blocks) so the agent can scroll to or read them.
+ */
+export const findInPage = (query: string, limit: number = MAX_FIND_RESULTS): FindMatch[] => {
+  const scored = new Map<Element, Omit<FindMatch, "id" | "section">>();
+
+  const consider = (element: Element, text: string, source: string) => {
+    if (!text) return;
+    const score = scoreTextMatch(query, text);
+    if (score === 0) return;
+    const existing = scored.get(element);
+    if (existing && existing.score >= score) return;
+    scored.set(element, { element, score, source, excerpt: excerptAround(text, query) });
+  };
+
+  for (const block of collectTextBlocks()) {
+    if (!isVisible(block)) continue;
+    consider(block, readBlockText(block), "text");
+  }
+
+  const attributeSelector = SEARCHED_ATTRIBUTES.map((name) => `[${name}]`).join(", ");
+  const labelledSelector = `${attributeSelector}, [aria-labelledby], [aria-describedby], input, textarea, select`;
+  for (const element of document.body.querySelectorAll(labelledSelector)) {
+    if (!isVisible(element)) continue;
+    consider(element, getElementLabel(element), "label");
+    consider(element, computeAccessibleDescription(element), "description");
+    for (const name of SEARCHED_ATTRIBUTES) {
+      consider(element, element.getAttribute(name) || "", name);
+    }
+  }
+
+  // A match inside another matching element is the more precise one.
+  const matches = Array.from(scored.values()).filter(
+    (match) => !Array.from(scored.keys()).some(
+      (other) => other !== match.element && match.element.contains(other) && (scored.get(other)?.score ?? 0) >= match.score,
+    ),
+  );
+
+  const headings = Array.from(document.querySelectorAll(HEADING_SELECTOR)).filter(isVisible);
+  return matches
+    .sort((a, b) =>
+      b.score - a.score ||
+      (a.element.compareDocumentPosition(b.element) & Node.DOCUMENT_POSITION_FOLLOWING ? -1 : 1))
+    .slice(0, limit)
+    .map((match) => ({
+      ...match,
+      id: registerElement(match.element),
+      section: findSectionHeading(match.element, headings),
+    }));
+};
+
+export const formatFindMatch = (match: FindMatch): string => {
+  const type = describeElementType(match.element);
+  const section = match.section ? ` (section: "${match.section}")` : "";
+  const source = match.source === "text" ? "" : ` [${match.source}]`;
+  return `- [${match.id}] ${type}: "${match.excerpt}"${source}${section}`;
+};
@@ -0,0 +1,245 @@
+import { normalizeWhitespace, isVisible, getPrimaryRole } from "./helpers";
+import { getElementLabel } from "./elementDescriptors";
+import { MAX_TABLES } from "./config";
+import { registerElement } from "./getPageContext";
+import { isInstanceOf } from "./domTraversal";
+
+// ── Grid expansion (pure) ───────────────────────────────────────────
+
+export interface TableCellSpec<T = unknown> {
+  text: string;
+  header: boolean;
+  colspan?: number;
+  rowspan?: number;
+  /** Opaque payload carried into every grid slot the cell covers. */
+  ref?: T;
+}
+
+/**
+ * Lay cells out on a rectangular grid the way browsers do: each cell takes
+ * the next free column in its row and fills `colspan` × `rowspan` slots.
+ * Short rows are padded with null.
+ */
+export const expandTableGrid = <T>(rows: TableCellSpec<T>[][]): (TableCellSpec<T> | null)[][] => {
+  const grid: (TableCellSpec<T> | null)[][] = [];
+
+  rows.forEach((cells, rowIndex) => {
+    grid[rowIndex] ??= [];
+    let column = 0;
+    for (const cell of cells) {
+      while (grid[rowIndex][column] !== undefined) column += 1;
+      const colspan = Math.max(1, Math.floor(cell.colspan ?? 1));
+      // rowspan=0 spans to the end of the table section.
+      const rowspan = cell.rowspan === 0 ? rows.length - rowIndex : Math.max(1, Math.floor(cell.rowspan ?? 1));
+      for (let r = rowIndex; r < Math.min(rows.length, rowIndex + rowspan); r += 1) {
+        grid[r] ??= [];
+        for (let c = column; c < column + colspan; c += 1) grid[r][c] = cell;
+      }
+      column += colspan;
+    }
+  });
+
+  const width = Math.max(0, ...grid.map((row) => row.length));
+  return grid.map((row) => Array.from({ length: width }, (_, index) => row[index] ?? null));
+};
+
+/**
+ * Column names from the leading all-header rows; multi-row headers are
+ * joined ("Fiyat / KDV dahil"). Columns without one become "Column N".
+ */
+export const deriveColumnHeaders = <T>(grid: (TableCellSpec<T> | null)[][]): { headers: string[]; bodyStart: number } => {
+  let bodyStart = 0;
+  while (
+    bodyStart < grid.length &&
+    grid[bodyStart].every((cell) => cell === null || cell.header) &&
+    grid[bodyStart].some((cell) => cell?.text)
+  ) {
+    bodyStart += 1;
+  }
+
+  const width = grid[0]?.length ?? 0;
+  const headers = Array.from({ length: width }, (_, column) => {
+    const parts: string[] = [];
+    for (let row = 0; row < bodyStart; row += 1) {
+      const text = grid[row][column]?.text ?? "";
+      if (text && parts[parts.length - 1] !== text) parts.push(text);
+    }
+    return parts.join(" / ") || `Column ${column + 1}`;
+  });
+
+  return { headers, bodyStart };
+};
+
+// ── DOM tables and ARIA grids ───────────────────────────────────────
+
+export const TABLE_SELECTOR = "table, [role='grid'], [role='table'], [role='treegrid']";
+
+const ROW_SELECTOR = "[role='row']";
+const CELL_ROLES = new Set(["cell", "gridcell", "columnheader", "rowheader"]);
+const HEADER_ROLES = new Set(["columnheader", "rowheader"]);
+
+const INTERACTIVE_IN_CELL_SELECTOR = [
+  "a[href]", "button", "input", "select", "textarea", "summary",
+  "[role='button']", "[role='link']", "[role='checkbox']", "[role='switch']",
+  "[role='menuitem']", "[tabindex]:not([tabindex='-1'])",
+].join(", ");
+
+const isNativeTable = (element: Element): element is HTMLTableElement =>
+  isInstanceOf(element, HTMLTableElement) && !element.getAttribute("role");
+
+const readSpan = (cell: Element, name: "colspan" | "rowspan"): number | undefined => {
+  const raw = cell.getAttribute(name) ?? cell.getAttribute(`aria-${name}`);
+  if (raw === null) return undefined;
+  const parsed = Number.parseInt(raw, 10);
+  return Number.isNaN(parsed) ? undefined : parsed;
+};
+
+const cellText = (cell: Element): string =>
+  normalizeWhitespace(isInstanceOf(cell, HTMLElement) ? cell.innerText : cell.textContent || "");
+
+const collectRows = (table: Element): Element[] => {
+  if (isNativeTable(table)) {
+    return Array.from(table.rows).filter((row) => row.closest("table") === table);
+  }
+  return Array.from(table.querySelectorAll(ROW_SELECTOR)).filter(
+    (row) => row.parentElement?.closest(TABLE_SELECTOR) === table,
+  );
+};
+
+const collectCells = (row: Element): Element[] => {
+  if (isInstanceOf(row, HTMLTableRowElement) && !row.getAttribute("role")) return Array.from(row.cells);
+  return Array.from(row.querySelectorAll("[role]")).filter(
+    (cell) => CELL_ROLES.has(getPrimaryRole(cell)) && cell.closest(ROW_SELECTOR) === row,
+  );
+};
+
+const isHeaderCell = (cell: Element): boolean =>
+  cell.tagName === "TH" || HEADER_ROLES.has(getPrimaryRole(cell));
+
+export interface TableRow {
+  /** Element ID of the row (rows in grids are often selectable / clickable). */
+  id: number;
+  cells: string[];
+}
+
+export interface TableData {
+  id: number;
+  title: string;
+  headers: string[];
+  rows: TableRow[];
+}
+
+export const getTableTitle = (table: Element): string => {
+  const caption = isNativeTable(table) ? table.caption : null;
+  const title = caption ? cellText(caption) : getElementLabel(table);
+  return title.length > 80 ? `${title.slice(0, 80)}…` : title;
+};
+
+/** Cell text plus `[id]` markers for the controls inside it. */
+const describeCell = (cell: Element): string => {
+  const text = cellText(cell);
+  const controls = Array.from(cell.querySelectorAll(INTERACTIVE_IN_CELL_SELECTOR)).filter(isVisible);
+  if (cell.matches(INTERACTIVE_IN_CELL_SELECTOR)) controls.unshift(cell);
+  if (controls.length === 0) return text;
+
+  const markers = controls.map((control) => {
+    const label = getElementLabel(control);
+    const id = registerElement(control);
+    return label && label !== text ? `${label} [${id}]` : `[${id}]`;
+  });
+  return [text, ...markers].filter(Boolean).join(" ");
+};
+
+/**
+ * Span-expanded grid of a `<table>` or ARIA grid; slots keep their cell.
+ * `rows[i]` is the row element of grid row i: a slot may hold a cell that
+ * a rowspan carries down from an earlier row.
+ */
+const readTableGrid = (table: Element) => {
+  const rows = collectRows(table).filter(isVisible);
+  const specs: TableCellSpec<Element>[][] = rows.map((row) =>
+    collectCells(row).map((cell) => ({ ...toCellSpec(cell, cellText(cell)), ref: cell })),
+  );
+  const grid = expandTableGrid(specs);
+  return { grid, rows, ...deriveColumnHeaders(grid) };
+};
+
+const toCellSpec = (cell: Element, text: string): TableCellSpec => ({
+  text,
+  header: isHeaderCell(cell),
+  colspan: readSpan(cell, "colspan"),
+  rowspan: readSpan(cell, "rowspan"),
+});
+
+/**
+ * Column headers and body row count without reading body cells: only the
+ * leading header rows are read, plus the spans of the first body row for
+ * the column count of tables without a header.
+ */
+const readTableShape = (table: Element): { headers: string[]; rowCount: number } => {
+  const rows = collectRows(table).filter(isVisible);
+  const specs: TableCellSpec[][] = [];
+  for (const row of rows) {
+    const cells = collectCells(row);
+    const isHeaderRow = cells.length > 0 && cells.every(isHeaderCell);
+    specs.push(cells.map((cell) => toCellSpec(cell, isHeaderRow ? cellText(cell) : "")));
+    if (!isHeaderRow) break;
+  }
+  const { headers, bodyStart } = deriveColumnHeaders(expandTableGrid(specs));
+  return { headers, rowCount: rows.length - bodyStart };
+};
+
+/** Structured rows of a table with spans expanded and interactive cells tagged with IDs. */
+export const readTableElement = (table: Element): TableData => {
+  const { grid, rows: rowElements, headers, bodyStart } = readTableGrid(table);
+
+  const rows = grid.slice(bodyStart).flatMap((slots, offset) => {
+    const row = rowElements[bodyStart + offset];
+    if (!row || slots.every((slot) => !slot)) return [];
+    const described = new Map<Element, string>();
+    // Colspan repeats become empty so a wide cell is reported once;
+    // rowspan repeats keep their value so every row is self-contained.
+    const cells = slots.map((slot, column) => {
+      const cell = slot?.ref;
+      if (!cell || slots[column - 1]?.ref === cell) return "";
+      if (!described.has(cell)) described.set(cell, describeCell(cell));
+      return described.get(cell) ?? "";
+    });
+    return [{ id: registerElement(row), cells }];
+  });
+
+  return { id: registerElement(table), title: getTableTitle(table), headers, rows };
+};
+
+/** One `header: value` line per row, skipping empty cells. */
+export const formatTableRow = (headers: string[], row: TableRow): string => {
+  const parts = row.cells.flatMap((cell, column) =>
+    cell ? [`${headers[column] ?? `Column ${column + 1}`}: ${cell}`] : [],
+  );
+  return `- [${row.id}] ${parts.join(" | ")}`;
+};
+
+/** The table or grid `element` is, or sits in (a row or cell ID works too). */
+export const findEnclosingTable = (element: Element): Element | null => element.closest(TABLE_SELECTOR);
+
+/** Data tables worth listing: visible, not layout tables, with at least one body row. */
+export const collectDataTables = (): Element[] =>
+  Array.from(document.querySelectorAll(TABLE_SELECTOR)).filter((table) => {
+    const role = table.getAttribute("role");
+    if (role === "presentation" || role === "none") return false;
+    if (!isVisible(table)) return false;
+    return collectRows(table).length >= 2;
+  });
+
+/**
+ * Compact `Tables` section lines for the page summary. Registers table IDs
+ * in the live map so `readTable(id)` can follow; body cells are left to it.
+ */
+export const collectTableSummaries = (): string[] =>
+  collectDataTables().slice(0, MAX_TABLES).map((table) => {
+    const { headers, rowCount } = readTableShape(table);
+    const title = getTableTitle(table);
+    const columns = headers.slice(0, 8).join(", ") + (headers.length > 8 ? ", …" : "");
+    const id = registerElement(table);
+    return `- [${id}] Table${title ? ` "${title}"` : ""}: ${rowCount} rows; columns: ${columns}`;
+  });
@@ -12,18 +12,26 @@ export interface CachedPageContextEntry {
   interactables: string[];
   capturedAt: number;
   version: number;
+  /** Page load that captured the entry; its `[N]` IDs mean nothing in any other load. */
+  documentId?: string;
 }
 
-export interface InteractableCandidate {
+/** One scanned element, listed once under a single stable ID. */
+export interface ElementRecord {
   id: number;
-  line: string;
+  element: Element;
+  /** `Type: "label"` from `describeElement`. */
+  descriptor: string;
+  /** Absolute URL of links that navigate somewhere. */
+  href?: string;
+  states: string[];
+  /** Strength of interaction signals; ranks Interactive Elements. */
   score: number;
+  /** Document order. */
   order: number;
-  element: Element;
 }
 
 export interface SemanticScanResult {
-  links: string[];
-  interactables: string[];
+  records: ElementRecord[];
   elementMap: Map<number, Element>;
 }
@@ -0,0 +1,150 @@
+// @vitest-environment jsdom
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  collectDeepElements,
+  computeElementFingerprint,
+  deepQuerySelector,
+  deepQuerySelectorAll,
+  getComposedParent,
+  getDeepActiveElement,
+  getFrameOffset,
+  getTreeHost,
+  isInstanceOf,
+} from "./context";
+import { getTabbableElements } from "./tools/keyboard";
+import { typeIntoElement } from "./tools/typing";
+
+const BULUT_HOST_ID = "bulut-container";
+
+let shadowHost: HTMLElement;
+let frame: HTMLIFrameElement;
+let frameDocument: Document;
+
+beforeEach(() => {
+  document.body.innerHTML = `
+    <button id="light">Light</button>
+    <x-card id="card"></x-card>
+    <div id="${BULUT_HOST_ID}"></div>
+    <iframe id="help"></iframe>
+  `;
+
+  shadowHost = document.getElementById("card") as HTMLElement;
+  shadowHost.attachShadow({ mode: "open" }).innerHTML = `<button class="inner">Pay</button>`;
+  document.getElementById(BULUT_HOST_ID)?.attachShadow({ mode: "open" }).append(
+    Object.assign(document.createElement("button"), { className: "inner", textContent: "Bulut" }),
+  );
+
+  frame = document.getElementById("help") as HTMLIFrameElement;
+  frameDocument = frame.contentDocument as Document;
+  frameDocument.body.innerHTML = `<input name="query" class="inner" />`;
+});
+
+describe("collectDeepElements", () => {
+  it("includes shadow and frame content after its host and skips Bulut", () => {
+    const ids = collectDeepElements().map((element) => element.id || element.className || element.tagName.toLowerCase());
+
+    expect(ids.indexOf("inner")).toBe(ids.indexOf("card") + 1);
+    expect(collectDeepElements().some((element) => element.textContent === "Bulut")).toBe(false);
+    expect(collectDeepElements().some((element) => element.getAttribute("name") === "query")).toBe(true);
+    expect(ids).not.toContain(BULUT_HOST_ID);
+  });
+
+  it("skips a custom Bulut container by its mount node", () => {
+    const container = document.createElement("div");
+    container.id = "bulut-x1y2z3";
+    const mount = Object.assign(document.createElement("div"), { id: "bulut-shadow-mount" });
+    mount.append(Object.assign(document.createElement("button"), { textContent: "Mic" }));
+    container.attachShadow({ mode: "open" }).append(mount);
+    document.body.append(container);
+
+    expect(collectDeepElements()).not.toContain(container);
+    expect(deepQuerySelectorAll("button").some((element) => element.textContent === "Mic")).toBe(false);
+  });
+
+  it("stops at the limit", () => {
+    expect(collectDeepElements(document, 3)).toHaveLength(3);
+  });
+});
+
+describe("deep selectors", () => {
+  it("finds light DOM first, then shadow and frame content", () => {
+    expect(deepQuerySelector("button")?.id).toBe("light");
+    expect(deepQuerySelector("button.inner")?.textContent).toBe("Pay");
+    expect(deepQuerySelector("input[name='query']")?.ownerDocument).toBe(frameDocument);
+    expect(deepQuerySelectorAll(".inner")).toHaveLength(2);
+  });
+
+  it("throws on invalid selectors like querySelector", () => {
+    expect(() => deepQuerySelector("button:contains('Pay')")).toThrow();
+  });
+});
+
+describe("tree boundaries", () => {
+  it("checks frame elements against their own realm", () => {
+    const input = frameDocument.querySelector("input");
+    expect(input instanceof HTMLInputElement).toBe(false);
+    expect(isInstanceOf(input, HTMLInputElement)).toBe(true);
+    expect(isInstanceOf(input, HTMLSelectElement)).toBe(false);
+    expect(isInstanceOf(null, HTMLElement)).toBe(false);
+  });
+
+  it("resolves hosts, composed parents and frame offsets", () => {
+    const inner = shadowHost.shadowRoot?.querySelector("button") as Element;
+    const input = frameDocument.querySelector("input") as Element;
+    frame.getBoundingClientRect = () => ({ left: 40, top: 100, width: 300, height: 200 }) as DOMRect;
+
+    expect(getTreeHost(inner)).toBe(shadowHost);
+    expect(getTreeHost(input)).toBe(frame);
+    expect(getTreeHost(shadowHost)).toBeNull();
+    expect(getComposedParent(inner)).toBe(shadowHost);
+    expect(getFrameOffset(input)).toEqual({ x: 40, y: 100 });
+    expect(getFrameOffset(inner)).toEqual({ x: 0, y: 0 });
+  });
+
+  it("fingerprints shadow content under its host's path", () => {
+    const inner = shadowHost.shadowRoot?.querySelector("button") as Element;
+    expect(computeElementFingerprint(inner)).toContain("x-card/button");
+  });
+
+  it("numbers only tags that repeat among siblings in the path", () => {
+    document.body.insertAdjacentHTML("beforeend", `<ul><li>Bir</li><p>Not</p><li><span>İki</span><button>Sil</button></li></ul>`);
+    const button = document.querySelector("ul button") as Element;
+    expect(computeElementFingerprint(button)).toContain("|ul>li:2>button|");
+  });
+});
+
+describe("frame content", () => {
+  it("follows focus into a frame", () => {
+    const input = frameDocument.querySelector("input") as HTMLInputElement;
+    input.focus();
+
+    expect(document.activeElement).toBe(frame);
+    expect(getDeepActiveElement()).toBe(input);
+  });
+
+  it("tabs into frame content in place of the frame", () => {
+    // jsdom has no layout; every element gets a box in both realms.
+    const box = () => ({ left: 0, top: 0, width: 100, height: 20 }) as DOMRect;
+    vi.spyOn(Element.prototype, "getBoundingClientRect").mockImplementation(box);
+    vi.spyOn(frameDocument.defaultView!.Element.prototype, "getBoundingClientRect").mockImplementation(box);
+
+    try {
+      const order = getTabbableElements().map((element) => element.id || element.getAttribute("name") || element.textContent);
+      expect(order).toEqual(["light", "Pay", "query"]);
+    } finally {
+      vi.restoreAllMocks();
+    }
+  });
+
+  it("types into an editor inside a frame through the frame's selection", async () => {
+    frameDocument.body.innerHTML = `<div contenteditable="true">Merhaba</div>`;
+    const editor = frameDocument.querySelector("div") as HTMLElement;
+    // jsdom does not implement isContentEditable.
+    Object.defineProperty(editor, "isContentEditable", { value: true });
+
+    const attempt = await typeIntoElement(editor, " dünya", { caret: "end" });
+
+    expect(attempt).toEqual({ ok: true });
+    expect(editor.textContent).toBe("Merhaba dünya");
+  });
+});
@@ -0,0 +1,191 @@
+// @vitest-environment jsdom
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+  FRAME_RESPONSE_TIMEOUT_MS,
+  createEnvelope,
+  executeInFrame,
+  getFrameSnapshots,
+  startFrameBridge,
+  startFrameBridgeChild,
+  stopFrameBridge,
+  stopFrameBridgeChild,
+  type BridgeMessage,
+  type FrameSnapshot,
+} from "./bridge";
+import { executeSingleToolCall, type ToolCallWithId } from "./tools";
+
+const PARENT_ORIGIN = "https://shop.example.com";
+const FRAME_ORIGIN = "https://pay.example.com";
+
+/** Stand-in for another window: records what is posted to it. */
+const fakeWindow = () => ({ closed: false, postMessage: vi.fn() });
+
+const deliver = (message: BridgeMessage, origin: string, source: object) => {
+  const event = new MessageEvent("message", { data: createEnvelope(message), origin });
+  Object.defineProperty(event, "source", { value: source });
+  window.dispatchEvent(event);
+};
+
+const posted = (target: ReturnType<typeof fakeWindow>) =>
+  target.postMessage.mock.calls.map(([envelope, origin]) => ({ message: envelope.message as BridgeMessage, origin: origin as string }));
+
+const snapshotOf = (url: string): FrameSnapshot => ({ url, title: "Ödeme", headings: [], links: [], interactables: [`- [5] Button: "Öde"`] });
+
+/** Connect `frame` to the parent bridge and return its frame index. */
+const connect = (frame: ReturnType<typeof fakeWindow>, url: string): number => {
+  deliver({ kind: "hello" }, FRAME_ORIGIN, frame);
+  deliver({ kind: "context", snapshot: snapshotOf(url) }, FRAME_ORIGIN, frame);
+  const connected = getFrameSnapshots().find(({ snapshot }) => snapshot.url === url);
+  if (!connected) throw new Error(`${url} did not connect`);
+  return connected.frame;
+};
+
+const lastExecute = (frame: ReturnType<typeof fakeWindow>) => {
+  const execute = posted(frame).map(({ message }) => message).filter((message) => message.kind === "execute").pop();
+  if (!execute) throw new Error("nothing was executed");
+  return execute;
+};
+
+afterEach(() => {
+  stopFrameBridge();
+  stopFrameBridgeChild();
+  vi.restoreAllMocks();
+  document.body.innerHTML = "";
+});
+
+describe("frame discovery", () => {
+  it("asks frames loaded before the widget to say hello", () => {
+    document.body.innerHTML = `<iframe></iframe>`;
+    const frame = document.querySelector("iframe")!.contentWindow!;
+    const postMessage = vi.spyOn(frame, "postMessage").mockImplementation(() => {});
+
+    startFrameBridge({ frameOrigins: [FRAME_ORIGIN] });
+
+    expect(postMessage).toHaveBeenCalledWith(createEnvelope({ kind: "discover" }), FRAME_ORIGIN);
+  });
+
+  it("leaves frames that already said hello alone", () => {
+    document.body.innerHTML = `<iframe></iframe>`;
+    const frame = document.querySelector("iframe")!.contentWindow!;
+    const postMessage = vi.spyOn(frame, "postMessage").mockImplementation(() => {});
+    // jsdom frame windows lack the `closed` flag every browser window has.
+    Object.defineProperty(frame, "closed", { configurable: true, value: false });
+    startFrameBridge({ frameOrigins: [FRAME_ORIGIN] });
+    deliver({ kind: "hello" }, FRAME_ORIGIN, frame);
+    postMessage.mockClear();
+
+    startFrameBridge({ frameOrigins: [FRAME_ORIGIN] });
+
+    expect(postMessage).not.toHaveBeenCalled();
+  });
+
+  it("re-announces the frame when the parent asks", () => {
+    const parent = fakeWindow();
+    vi.spyOn(window, "parent", "get").mockReturnValue(parent as unknown as Window);
+    startFrameBridgeChild({ parentOrigins: [PARENT_ORIGIN] });
+    parent.postMessage.mockClear();
+
+    deliver({ kind: "discover" }, "https://evil.example.com", parent);
+    deliver({ kind: "discover" }, PARENT_ORIGIN, fakeWindow());
+    expect(posted(parent)).toEqual([]);
+
+    deliver({ kind: "discover" }, PARENT_ORIGIN, parent);
+    expect(posted(parent)).toEqual([{ message: { kind: "hello" }, origin: PARENT_ORIGIN }]);
+  });
+});
+
+describe("parent bridge", () => {
+  it("connects frames that say hello from an allowed origin", () => {
+    startFrameBridge({ frameOrigins: [FRAME_ORIGIN] });
+    const frame = fakeWindow();
+
+    deliver({ kind: "hello" }, FRAME_ORIGIN, frame);
+    expect(posted(frame)).toEqual([{ message: { kind: "requestContext" }, origin: FRAME_ORIGIN }]);
+
+    deliver({ kind: "context", snapshot: snapshotOf("https://pay.example.com/kart") }, FRAME_ORIGIN, frame);
+    expect(getFrameSnapshots().map(({ snapshot }) => snapshot.url)).toEqual(["https://pay.example.com/kart"]);
+  });
+
+  it("ignores other origins and frames that never said hello", () => {
+    startFrameBridge({ frameOrigins: [FRAME_ORIGIN] });
+    const stranger = fakeWindow();
+
+    deliver({ kind: "hello" }, "https://evil.example.com", stranger);
+    deliver({ kind: "context", snapshot: snapshotOf("https://pay.example.com/sahte") }, FRAME_ORIGIN, stranger);
+
+    expect(posted(stranger)).toEqual([]);
+    expect(getFrameSnapshots()).toEqual([]);
+  });
+
+  it("routes each result to the call of the frame that ran it", async () => {
+    startFrameBridge({ frameOrigins: [FRAME_ORIGIN] });
+    const frame = fakeWindow();
+    const other = fakeWindow();
+    const index = connect(frame, "https://pay.example.com/kart");
+    connect(other, "https://pay.example.com/adres");
+
+    const response = executeInFrame(index, { call_id: "c1", tool: "find", query: "Öde" } as unknown as ToolCallWithId);
+    const execute = lastExecute(frame);
+    if (execute.kind !== "execute") throw new Error("expected an execute message");
+    deliver({ kind: "result", requestId: execute.requestId, result: "başka çerçeve" }, FRAME_ORIGIN, other);
+    deliver({ kind: "result", requestId: execute.requestId, result: "bulundu" }, FRAME_ORIGIN, frame);
+
+    await expect(response).resolves.toEqual({ status: "ok", result: "bulundu" });
+  });
+
+  it("settles a pending call as reloaded when its frame says hello again", async () => {
+    startFrameBridge({ frameOrigins: [FRAME_ORIGIN] });
+    const frame = fakeWindow();
+    const index = connect(frame, "https://pay.example.com/kart");
+
+    const response = executeInFrame(index, { call_id: "c1", tool: "interact", action: "click", id: 5 } as unknown as ToolCallWithId);
+    deliver({ kind: "hello" }, FRAME_ORIGIN, frame);
+
+    await expect(response).resolves.toEqual({ status: "reloaded" });
+    expect(getFrameSnapshots().some(({ frame: connected }) => connected === index)).toBe(false);
+  });
+
+  it("times out calls the frame never answers", async () => {
+    vi.useFakeTimers();
+    try {
+      startFrameBridge({ frameOrigins: [FRAME_ORIGIN] });
+      const index = connect(fakeWindow(), "https://pay.example.com/kart");
+
+      const response = executeInFrame(index, { call_id: "c1", tool: "find", query: "Öde" } as unknown as ToolCallWithId);
+      vi.advanceTimersByTime(FRAME_RESPONSE_TIMEOUT_MS);
+
+      await expect(response).resolves.toEqual({ status: "timeout" });
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it("runs tool calls with frame-scoped IDs in their frame", async () => {
+    startFrameBridge({ frameOrigins: [FRAME_ORIGIN] });
+    const frame = fakeWindow();
+    const index = connect(frame, "https://pay.example.com/kart");
+
+    const pending = executeSingleToolCall({ call_id: "c1", tool: "interact", action: "click", id: `f${index}:5` } as unknown as ToolCallWithId);
+    const execute = lastExecute(frame);
+    if (execute.kind !== "execute") throw new Error("expected an execute message");
+    expect(execute.call).toMatchObject({ tool: "interact", action: "click", id: 5 });
+    deliver({ kind: "result", requestId: execute.requestId, result: `[5] Button "Öde" tıklandı` }, FRAME_ORIGIN, frame);
+
+    await expect(pending).resolves.toEqual({ call_id: "c1", result: `[f${index}:5] Button "Öde" tıklandı` });
+  });
+});
+
+describe("child bridge", () => {
+  it("answers execute with a fresh snapshot and then the result", async () => {
+    const parent = fakeWindow();
+    vi.spyOn(window, "parent", "get").mockReturnValue(parent as unknown as Window);
+    document.body.innerHTML = `<button>Öde</button>`;
+    startFrameBridgeChild({ parentOrigins: [PARENT_ORIGIN] });
+    parent.postMessage.mockClear();
+
+    deliver({ kind: "execute", requestId: "r1", call: { call_id: "c1", tool: "find", query: "Öde" } as unknown as ToolCallWithId }, PARENT_ORIGIN, parent);
+
+    await vi.waitFor(() => expect(posted(parent).map(({ message }) => message.kind)).toEqual(["context", "result"]));
+    expect(posted(parent)[1]).toMatchObject({ message: { kind: "result", requestId: "r1" }, origin: PARENT_ORIGIN });
+  });
+});
@@ -0,0 +1,645 @@
+// @vitest-environment jsdom
+import { afterEach, beforeAll, describe, expect, it, vi } from "vitest";
+import {
+  PAGE_CONTEXT_CACHE_KEY,
+  PAGE_CONTEXT_CACHE_VERSION,
+  clearPageContextCache,
+  getPageContext,
+  registerElement,
+} from "./context";
+import { executeSingleToolCall, type ToolCallWithId, type ToolOutcome } from "./tools";
+
+// The animated agent cursor only adds wall-clock time here.
+vi.mock("./tools/cursor", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("./tools/cursor")>()),
+  moveCursor: async () => {},
+}));
+
+beforeAll(() => {
+  // vitest's jsdom `window` is not the jsdom Window instance mouse events require as `view`.
+  const JsdomMouseEvent = window.MouseEvent;
+  vi.stubGlobal("MouseEvent", class extends JsdomMouseEvent {
+    constructor(type: string, init: MouseEventInit = {}) {
+      super(type, { ...init, view: null });
+    }
+  });
+  // jsdom has no layout: give every rendered element a small box.
+  Element.prototype.scrollIntoView = () => {};
+  Object.defineProperty(HTMLElement.prototype, "innerText", {
+    configurable: true,
+    get(this: HTMLElement) {
+      return this.textContent;
+    },
+  });
+  vi.spyOn(Element.prototype, "getBoundingClientRect").mockImplementation(function (this: Element) {
+    const size = this.closest("[hidden]") ? 0 : 1;
+    return { x: 10, y: 10, left: 10, top: 10, right: 10 + 120 * size, bottom: 10 + 24 * size, width: 120 * size, height: 24 * size, toJSON: () => ({}) } as DOMRect;
+  });
+  // jsdom does not implement pseudo-element styles and logs on every call.
+  const getComputedStyle = window.getComputedStyle.bind(window);
+  vi.spyOn(window, "getComputedStyle").mockImplementation((element) => getComputedStyle(element));
+});
+
+afterEach(() => {
+  document.body.innerHTML = "";
+});
+
+const render = (html: string) => {
+  document.body.innerHTML = html;
+};
+
+const query = <T extends Element = HTMLElement>(selector: string): T => {
+  const element = document.querySelector<T>(selector);
+  if (!element) throw new Error(`missing ${selector}`);
+  return element;
+};
+
+const run = async (call: Record<string, unknown>): Promise<ToolOutcome> => {
+  const { result } = await executeSingleToolCall({ call_id: "c1", ...call } as unknown as ToolCallWithId);
+  return JSON.parse(result) as ToolOutcome;
+};
+
+const interact = (action: string, fields: Record<string, unknown>) => run({ tool: "interact", action, ...fields });
+
+describe("select", () => {
+  it("refuses plain buttons without clicking them", async () => {
+    render(`<div id="save" role="button" tabindex="0">Kaydet</div>`);
+    const onClick = vi.fn();
+    query("#save").addEventListener("click", onClick);
+
+    const outcome = await interact("select", { selector: "#save", label: "Ankara" });
+
+    expect(outcome).toMatchObject({ status: "failed", reason: "not_selectable" });
+    expect(onClick).not.toHaveBeenCalled();
+  });
+
+  it("refuses disclosure and menu buttons without clicking them", async () => {
+    render(`
+      <button id="faq" aria-controls="answer" aria-expanded="false">Kargo ne zaman gelir?</button>
+      <div id="answer" hidden>İki iş günü içinde.</div>
+      <button id="more" aria-haspopup="menu">Diğer</button>
+    `);
+    const onClick = vi.fn();
+    query("#faq").addEventListener("click", onClick);
+    query("#more").addEventListener("click", onClick);
+
+    expect(await interact("select", { selector: "#faq", label: "Ankara" })).toMatchObject({ status: "failed", reason: "not_selectable" });
+    expect(await interact("select", { selector: "#more", label: "Ankara" })).toMatchObject({ status: "failed", reason: "not_selectable" });
+    expect(onClick).not.toHaveBeenCalled();
+  });
+
+  it("opens the listbox a button controls", async () => {
+    render(`
+      <button id="city" aria-controls="cities" aria-expanded="false">Şehir</button>
+      <ul id="cities" role="listbox" hidden>
+        <li role="option">Ankara</li><li role="option">İzmir</li>
+      </ul>
+    `);
+    query("#city").addEventListener("click", () => query("#cities").removeAttribute("hidden"));
+    const picked = vi.fn();
+    query("#cities").addEventListener("click", (event) => picked((event.target as Element).textContent));
+
+    const outcome = await interact("select", { selector: "#city", label: "izmir" });
+
+    expect(outcome).toMatchObject({ status: "ok", selected: "İzmir" });
+    expect(picked).toHaveBeenCalledWith("İzmir");
+  });
+
+  it("waits for a portalled popup instead of using a listbox that was already open", async () => {
+    render(`
+      <ul id="filters" role="listbox"><li role="option">İzmir</li></ul>
+      <div id="country" role="combobox" aria-haspopup="listbox" aria-expanded="false">Ülke</div>
+    `);
+    query("#country").addEventListener("click", () => {
+      setTimeout(() => {
+        document.body.insertAdjacentHTML("beforeend", `<ul id="popup" role="listbox"><li role="option">İzmir</li></ul>`);
+      }, 100);
+    });
+    const staleClick = vi.fn();
+    query("#filters").addEventListener("click", staleClick);
+
+    const outcome = await interact("select", { selector: "#country", label: "İzmir" });
+
+    expect(outcome).toMatchObject({ status: "ok", selected: "İzmir" });
+    expect(staleClick).not.toHaveBeenCalled();
+  });
+});
+
+describe("press", () => {
+  it("leaves ARIA widgets to their own key handlers", async () => {
+    render(`<div id="mute" role="button" tabindex="0">Sessiz</div>`);
+    const onKey = vi.fn();
+    const onClick = vi.fn();
+    query("#mute").addEventListener("keydown", (event) => { if (event.key === " ") onKey(); });
+    query("#mute").addEventListener("click", onClick);
+
+    await interact("press", { selector: "#mute", key: "Space" });
+
+    expect(onKey).toHaveBeenCalledTimes(1);
+    expect(onClick).not.toHaveBeenCalled();
+  });
+
+  it("activates native buttons on Enter", async () => {
+    render(`<button id="send">Gönder</button>`);
+    const onClick = vi.fn();
+    query("#send").addEventListener("click", onClick);
+
+    await interact("press", { selector: "#send", key: "Enter" });
+
+    expect(onClick).toHaveBeenCalledTimes(1);
+  });
+
+  it("submits through the default button on Enter in text fields only", async () => {
+    render(`
+      <form id="search">
+        <input id="q" name="q" value="telefon" />
+        <input id="stock" type="checkbox" name="stock" />
+        <button id="go" name="sort" value="price">Ara</button>
+      </form>
+    `);
+    const clicked = vi.fn();
+    const submitted = vi.fn();
+    query("#go").addEventListener("click", clicked);
+    query("#search").addEventListener("submit", (event) => { event.preventDefault(); submitted(); });
+
+    await interact("press", { selector: "#stock", key: "Enter" });
+    expect(submitted).not.toHaveBeenCalled();
+
+    await interact("press", { selector: "#q", key: "Enter" });
+    expect(clicked).toHaveBeenCalledTimes(1);
+    expect(submitted).toHaveBeenCalledTimes(1);
+  });
+
+  it("edits text fields on Enter, Backspace and Delete", async () => {
+    render(`<textarea id="note">Merhaba</textarea>`);
+    const note = query<HTMLTextAreaElement>("#note");
+    const inputTypes: string[] = [];
+    note.addEventListener("input", (event) => inputTypes.push((event as InputEvent).inputType));
+    note.setSelectionRange(7, 7);
+
+    await interact("press", { selector: "#note", key: "Backspace" });
+    await interact("press", { selector: "#note", key: "Enter" });
+    note.setSelectionRange(0, 0);
+    await interact("press", { selector: "#note", key: "Delete" });
+
+    expect(note.value).toBe("erhab\n");
+    expect(inputTypes).toEqual(["deleteContentBackward", "insertLineBreak", "deleteContentForward"]);
+  });
+
+  it("sends untargeted keys to the page instead of the focused chat input", async () => {
+    render(`<div id="bulut-container"></div>`);
+    const chatInput = document.createElement("input");
+    query("#bulut-container").attachShadow({ mode: "open" }).append(chatInput);
+    chatInput.focus();
+    const targets: EventTarget[] = [];
+    document.addEventListener("keydown", (event) => targets.push(event.composedPath()[0]));
+
+    const outcome = await interact("press", { key: "Escape" });
+
+    expect(targets).toEqual([document.body]);
+    expect(outcome.focused).toBeUndefined();
+  });
+});
+
+const recordEvents = (seen: string[], element: Element, types: string[]) => {
+  for (const type of types) element.addEventListener(type, () => seen.push(`${element.id}:${type}`));
+};
+
+describe("hover", () => {
+  it("keeps a hover menu open while moving into it and leaves it on exit", async () => {
+    render(`
+      <nav id="menu"><a id="trigger" href="#">Ürünler</a><a id="item" href="#">Telefon</a></nav>
+      <p id="away">Ana içerik</p>
+    `);
+    const seen: string[] = [];
+    recordEvents(seen, query("#menu"), ["mouseenter", "mouseleave"]);
+    recordEvents(seen, query("#trigger"), ["mouseenter", "mouseleave"]);
+
+    await interact("hover", { selector: "#trigger" });
+    await interact("hover", { selector: "#item" });
+    expect(seen).toEqual(["menu:mouseenter", "trigger:mouseenter", "trigger:mouseleave"]);
+
+    await interact("hover", { selector: "#away" });
+    expect(seen.slice(3)).toEqual(["menu:mouseleave"]);
+  });
+});
+
+describe("coordinate clicks", () => {
+  it("clicks the page element under the agent cursor and the widget", async () => {
+    render(`
+      <div id="auticbot-agent-cursor"></div>
+      <div id="bulut-container"></div>
+      <button id="buy"><svg><path id="icon"></path></svg>Satın al</button>
+    `);
+    const onClick = vi.fn();
+    query("#buy").addEventListener("click", onClick);
+    const widgetClick = vi.fn();
+    query("#bulut-container").addEventListener("click", widgetClick);
+    document.elementsFromPoint = () => [query("#auticbot-agent-cursor"), query("#bulut-container"), query("#icon")];
+
+    const outcome = await interact("click", { x: 70, y: 22 });
+
+    expect(outcome).toMatchObject({ status: "ok", hit: 'Button: "Satın al"' });
+    expect(onClick).toHaveBeenCalledTimes(1);
+    expect(widgetClick).not.toHaveBeenCalled();
+  });
+
+  it("reports coordinates with nothing to interact with", async () => {
+    render(`<div id="bulut-container"></div>`);
+    document.elementsFromPoint = () => [query("#bulut-container")];
+
+    const outcome = await interact("click", { x: 5, y: 5 });
+
+    expect(outcome).toMatchObject({ status: "failed", reason: "target_not_found" });
+  });
+});
+
+describe("pointer gestures", () => {
+  const MOUSE_EVENTS = ["pointerdown", "mousedown", "pointerup", "mouseup", "click", "dblclick", "contextmenu"];
+
+  const recordButtons = (element: Element) => {
+    const seen: string[] = [];
+    for (const type of MOUSE_EVENTS) {
+      element.addEventListener(type, (event) => {
+        const { button, detail } = event as MouseEvent;
+        seen.push(`${type}/${button}/${detail}`);
+      });
+    }
+    return seen;
+  };
+
+  it("double-clicks with two numbered clicks before dblclick", async () => {
+    render(`<span id="cell">Hücre</span>`);
+    const seen = recordButtons(query("#cell"));
+
+    await interact("doubleClick", { selector: "#cell" });
+
+    const press = (detail: number) =>
+      ["pointerdown", "mousedown", "pointerup", "mouseup", "click"].map((type) => `${type}/0/${detail}`);
+    expect(seen).toEqual([...press(1), ...press(2), "dblclick/0/2"]);
+  });
+
+  it("right-clicks with the secondary button and no click", async () => {
+    render(`<span id="file">rapor.pdf</span>`);
+    const seen = recordButtons(query("#file"));
+
+    await interact("contextClick", { selector: "#file" });
+
+    expect(seen).toEqual(["pointerdown/2/0", "mousedown/2/0", "pointerup/2/0", "mouseup/2/0", "contextmenu/2/0"]);
+  });
+
+  it("holds a long press before releasing without a click", async () => {
+    render(`<span id="photo">Fotoğraf</span>`);
+    const times: Record<string, number> = {};
+    for (const type of ["mousedown", "mouseup"]) {
+      query("#photo").addEventListener(type, () => { times[type] = performance.now(); });
+    }
+    const seen = recordButtons(query("#photo"));
+
+    await interact("longPress", { selector: "#photo" });
+
+    expect(seen).toEqual(["pointerdown/0/0", "mousedown/0/0", "pointerup/0/0", "mouseup/0/0"]);
+    expect(times.mouseup - times.mousedown).toBeGreaterThanOrEqual(550);
+  });
+});
+
+describe("realistic typing", () => {
+  it("follows the caret a masked input moves while reformatting", async () => {
+    render(`<input id="phone" type="tel" />`);
+    const phone = query<HTMLInputElement>("#phone");
+    phone.addEventListener("input", () => {
+      const digits = phone.value.replace(/\D/g, "");
+      const formatted = digits.length > 3 ? `${digits.slice(0, 3)} ${digits.slice(3)}` : digits;
+      phone.value = formatted;
+      phone.setSelectionRange(formatted.length, formatted.length);
+    });
+
+    await interact("type", { selector: "#phone", text: "5551234", typing: "realistic", delay: 0 });
+
+    expect(phone.value).toBe("555 1234");
+  });
+
+  it("tracks the caret itself where the input hides its selection", async () => {
+    render(`<input id="email" type="email" value="ayse" />`);
+
+    await interact("type", { selector: "#email", text: "@ornek.com", typing: "realistic", delay: 0, caret: "end" });
+
+    expect(query<HTMLInputElement>("#email").value).toBe("ayse@ornek.com");
+  });
+});
+
+describe("setValue", () => {
+  it("snaps native ranges to their step and fires input and change", async () => {
+    render(`<input id="volume" type="range" min="0" max="100" step="5" value="20" />`);
+    const seen: string[] = [];
+    recordEvents(seen, query("#volume"), ["input", "change"]);
+
+    const outcome = await interact("setValue", { selector: "#volume", value: "47" });
+
+    expect(outcome).toMatchObject({ status: "ok", value: "45" });
+    expect(seen).toEqual(["volume:input", "volume:change"]);
+  });
+
+  it("drives ARIA sliders with their own key handling", async () => {
+    render(`<div id="price" role="slider" tabindex="0" aria-valuemin="0" aria-valuemax="100" aria-valuenow="10"></div>`);
+    const slider = query("#price");
+    const steps: Record<string, number> = { ArrowRight: 1, ArrowLeft: -1, PageUp: 10, PageDown: -10 };
+    slider.addEventListener("keydown", (event) => {
+      const now = Number(slider.getAttribute("aria-valuenow")) + (steps[event.key] ?? 0);
+      slider.setAttribute("aria-valuenow", String(Math.min(100, Math.max(0, now))));
+    });
+
+    const outcome = await interact("setValue", { selector: "#price", value: "37" });
+
+    expect(outcome).toMatchObject({ status: "ok", value: "37" });
+  });
+
+  it("refuses ambiguous separators instead of guessing", async () => {
+    render(`<input id="amount" type="number" value="5" />`);
+
+    expect(await interact("setValue", { selector: "#amount", value: "1,234" })).toMatchObject({
+      status: "failed",
+      reason: "ambiguous_value",
+    });
+    expect(query<HTMLInputElement>("#amount").value).toBe("5");
+  });
+
+  it("refuses elements without a numeric value", async () => {
+    render(`<div id="box" tabindex="0">Kutu</div>`);
+    expect(await interact("setValue", { selector: "#box", value: "3" })).toMatchObject({
+      status: "failed",
+      reason: "not_adjustable",
+    });
+  });
+});
+
+describe("check and uncheck", () => {
+  it("clicks a label once and leaves a checked box alone", async () => {
+    render(`<label id="terms"><input type="checkbox" name="terms" /> Koşulları kabul ediyorum</label>`);
+    const box = query<HTMLInputElement>("input[name='terms']");
+    const onChange = vi.fn();
+    box.addEventListener("change", onChange);
+
+    expect(await interact("check", { selector: "#terms" })).toMatchObject({ status: "ok" });
+    expect(box.checked).toBe(true);
+    expect(await interact("check", { selector: "#terms" })).toMatchObject({ status: "ok", message: "Zaten işaretli." });
+    expect(onChange).toHaveBeenCalledTimes(1);
+  });
+
+  it("toggles a hidden input inside a styled wrapper through its label", async () => {
+    render(`
+      <div id="sms" class="toggle"><input id="sms-box" type="checkbox" hidden /><label for="sms-box">SMS</label></div>
+      <div id="mail" class="toggle"><input id="mail-box" type="checkbox" hidden /><span>E-posta</span></div>
+    `);
+    const labelClicked = vi.fn();
+    query("label").addEventListener("click", labelClicked);
+
+    expect(await interact("check", { selector: "#sms" })).toMatchObject({ status: "ok" });
+    expect(await interact("check", { selector: "#mail" })).toMatchObject({ status: "ok" });
+    expect(labelClicked).toHaveBeenCalledTimes(1);
+    expect(query<HTMLInputElement>("#sms-box").checked).toBe(true);
+    expect(query<HTMLInputElement>("#mail-box").checked).toBe(true);
+  });
+
+  it("refuses disabled checkables inside a wrapper without clicking", async () => {
+    render(`<div id="gift"><input type="checkbox" disabled /> Hediye paketi</div>`);
+    const onClick = vi.fn();
+    query("#gift").addEventListener("click", onClick);
+
+    expect(await interact("check", { selector: "#gift" })).toMatchObject({ status: "failed", reason: "disabled" });
+    expect(onClick).not.toHaveBeenCalled();
+  });
+
+  it("refuses to uncheck radios and reports switches that ignore the click", async () => {
+    render(`
+      <input id="card" type="radio" name="pay" checked />
+      <div id="alerts" role="switch" aria-checked="false" tabindex="0">Bildirimler</div>
+    `);
+
+    expect(await interact("uncheck", { selector: "#card" })).toMatchObject({ status: "failed", reason: "radio_uncheck" });
+    expect(await interact("check", { selector: "#alerts" })).toMatchObject({ status: "failed", reason: "state_unchanged" });
+  });
+});
+
+describe("loadMore", () => {
+  it("counts a next-page control that swaps the items as loaded", async () => {
+    render(`
+      <section id="catalog">
+        <ul id="results"><li>Ürün 1</li><li>Ürün 2</li></ul>
+        <button id="next">Sonraki</button>
+      </section>
+    `);
+    let page = 1;
+    query("#next").addEventListener("click", () => {
+      page += 1;
+      setTimeout(() => {
+        query("#results").innerHTML = `<li>Ürün ${page * 2 - 1}</li><li>Ürün ${page * 2}</li>`;
+      }, 50);
+    });
+
+    const outcome = await run({ tool: "loadMore", container: registerElement(query("#catalog")) });
+
+    expect(outcome).toMatchObject({ status: "ok", iterations: 1 });
+    expect(outcome.message).toMatch(/değiştirildi/);
+    expect(query("#results").textContent).toBe("Ürün 3Ürün 4");
+  });
+
+  it("does not click page-wide toggles without a container", async () => {
+    render(`
+      <ul id="results"><li>Ürün 1</li><li>Ürün 2</li></ul>
+      <section id="reviews"><p>Çok iyi</p><button id="expand">Devamını gör</button></section>
+    `);
+    const onClick = vi.fn();
+    query("#expand").addEventListener("click", onClick);
+
+    const outcome = await run({ tool: "loadMore", maxIterations: 1 });
+
+    expect(outcome).toMatchObject({ status: "failed", reason: "no_control" });
+    expect(onClick).not.toHaveBeenCalled();
+  }, 10_000);
+});
+
+describe("readElement", () => {
+  it("reads ARIA list items and keeps other children of a list", async () => {
+    render(`
+      <div id="reviews" role="list">
+        <div role="listitem">Hızlı kargo</div>
+        <div role="listitem">Sağlam paketleme</div>
+      </div>
+      <ul id="steps"><li>Sepete ekle</li><div>Not: stok sınırlı</div><li>Öde</li></ul>
+    `);
+
+    const reviews = await run({ tool: "readElement", id: registerElement(query("#reviews")) });
+    const steps = await run({ tool: "readElement", id: registerElement(query("#steps")) });
+
+    expect(reviews.content).toBe("- Hızlı kargo\n- Sağlam paketleme");
+    expect(steps.content).toBe("- Sepete ekle\nNot: stok sınırlı\n- Öde");
+  });
+});
+
+describe("readTable", () => {
+  it("gives rows under a rowspan their own row ID", async () => {
+    render(`
+      <table>
+        <tr><th>Gün</th><th>Saat</th></tr>
+        <tr id="monday-9"><td rowspan="2">Pazartesi</td><td>09:00</td></tr>
+        <tr id="monday-14"><td>14:00</td></tr>
+      </table>
+    `);
+
+    const outcome = await run({ tool: "readTable", id: registerElement(query("table")) });
+
+    expect(outcome.rows).toEqual([
+      `- [${registerElement(query("#monday-9"))}] Gün: Pazartesi | Saat: 09:00`,
+      `- [${registerElement(query("#monday-14"))}] Gün: Pazartesi | Saat: 14:00`,
+    ]);
+  });
+});
+
+describe("table summaries", () => {
+  it("lists headers and row counts without reading body cells", () => {
+    render(`
+      <table>
+        <caption>Randevular</caption>
+        <tr><th>Gün</th><th colspan="2">Saat</th></tr>
+        <tr><td>Pazartesi</td><td>09:00</td><td>14:00</td></tr>
+        <tr><td>Salı</td><td>10:00</td><td>15:00</td></tr>
+      </table>
+    `);
+    const innerText = vi.spyOn(HTMLElement.prototype, "innerText", "get");
+
+    try {
+      const summary = getPageContext(true).summary;
+
+      expect(summary).toMatch(/Table "Randevular": 2 rows; columns: Gün, Saat, Saat/);
+      expect(innerText.mock.contexts.some((element) => (element as Element).tagName === "TD")).toBe(false);
+    } finally {
+      innerText.mockRestore();
+    }
+  });
+});
+
+describe("fillForm", () => {
+  it("fills fields by label, legend and placeholder and reports the rest", async () => {
+    render(`
+      <form id="signup">
+        <label>Ad Soyad <input name="full_name" /></label>
+        <input name="mail" type="email" placeholder="E-posta" />
+        <label for="city">Şehir</label>
+        <select id="city"><option value="">Seçin</option><option value="34">İstanbul</option><option value="06">Ankara</option></select>
+        <fieldset><legend>Teslimat</legend>
+          <label><input type="radio" name="ship" value="std" /> Standart</label>
+          <label><input type="radio" name="ship" value="exp" /> Hızlı</label>
+        </fieldset>
+        <label><input type="checkbox" name="kvkk" /> KVKK onayı</label>
+        <label>Doğum tarihi <input name="birth" type="date" /></label>
+      </form>
+    `);
+
+    const outcome = await run({
+      tool: "fillForm",
+      id: registerElement(query("#signup")),
+      values: {
+        "Ad Soyad": "Ayşe Yılmaz",
+        "e-posta": "ayse@ornek.com",
+        "Şehir": "Ankara",
+        "Teslimat": "Hızlı",
+        "KVKK onayı": "evet",
+        "Doğum tarihi": "12.03.1990",
+        "Telefon": "555",
+      },
+    });
+
+    expect(outcome).toMatchObject({ status: "failed", reason: "partial_fill", unmatched: ["Telefon"] });
+    expect(query<HTMLInputElement>("input[name='full_name']").value).toBe("Ayşe Yılmaz");
+    expect(query<HTMLInputElement>("input[name='mail']").value).toBe("ayse@ornek.com");
+    expect(query<HTMLSelectElement>("#city").value).toBe("06");
+    expect(query<HTMLInputElement>("input[value='exp']").checked).toBe(true);
+    expect(query<HTMLInputElement>("input[name='kvkk']").checked).toBe(true);
+    expect(query<HTMLInputElement>("input[name='birth']").value).toBe("1990-03-12");
+  });
+});
+
+describe("submit", () => {
+  it("reports constraint failures without submitting", async () => {
+    render(`<form id="contact"><label>E-posta <input name="email" required /></label><button>Gönder</button></form>`);
+    const onSubmit = vi.fn();
+    query("#contact").addEventListener("submit", onSubmit);
+
+    const outcome = await interact("submit", { selector: "#contact button" });
+
+    expect(outcome).toMatchObject({ status: "failed", reason: "validation_failed" });
+    expect(outcome.validation).toHaveLength(1);
+    expect(outcome.validation?.[0]).toMatch(/E-posta.*\(constraint\)$/);
+    expect(onSubmit).not.toHaveBeenCalled();
+  });
+
+  it("reads errors a submit handler attaches to fields", async () => {
+    render(`
+      <form id="contact">
+        <label>Telefon <input name="phone" value="12" aria-describedby="phone-error" /></label>
+        <p id="phone-error"></p>
+        <button>Gönder</button>
+      </form>
+    `);
+    query("#contact").addEventListener("submit", (event) => {
+      event.preventDefault();
+      query("input[name='phone']").setAttribute("aria-invalid", "true");
+      query("#phone-error").textContent = "Geçerli bir telefon numarası girin.";
+    });
+
+    const outcome = await interact("submit", { selector: "#contact button" });
+
+    expect(outcome).toMatchObject({ status: "failed", reason: "validation_failed" });
+    expect(outcome.validation?.join("\n")).toContain("Geçerli bir telefon numarası girin.");
+  });
+
+  it("passes on status announcements after a successful submit", async () => {
+    render(`
+      <form id="contact"><input name="message" value="Merhaba" /><button>Gönder</button></form>
+      <div role="status" id="toast"></div>
+    `);
+    query("#contact").addEventListener("submit", (event) => {
+      event.preventDefault();
+      setTimeout(() => { query("#toast").textContent = "Mesajınız gönderildi"; }, 20);
+    });
+
+    const outcome = await interact("submit", { selector: "#contact button" });
+
+    expect(outcome).toMatchObject({ status: "ok", announcements: ["Mesajınız gönderildi"] });
+  });
+});
+
+describe("page context cache", () => {
+  const storeEarlierLoad = (url: string, summary: string) => {
+    const entry = { url, summary, links: [], interactables: [summary], capturedAt: Date.now(), version: PAGE_CONTEXT_CACHE_VERSION };
+    sessionStorage.setItem(PAGE_CONTEXT_CACHE_KEY, JSON.stringify([entry]));
+  };
+
+  afterEach(() => {
+    clearPageContextCache();
+  });
+
+  it("rescans a page whose entry was cached by an earlier page load", () => {
+    clearPageContextCache();
+    storeEarlierLoad(window.location.href, `- [1] Button: "Eski kaydet"`);
+    render(`<button>Yeni kaydet</button>`);
+
+    const context = getPageContext();
+
+    expect(context.summary).toContain("Yeni kaydet");
+    expect(context.summary).not.toContain("Eski kaydet");
+    expect(getPageContext().summary).toBe(context.summary);
+  });
+
+  it("drops element IDs from other pages in the page memory", () => {
+    clearPageContextCache();
+    storeEarlierLoad("https://example.com/sepet", `- [7] Button: "Ödemeye geç"`);
+    render(`<button>Kaydet</button>`);
+
+    const memory = getPageContext().summary.split("Recent Page Memory:")[1];
+
+    expect(memory).toContain("Ödemeye geç");
+    expect(memory).not.toContain("[7]");
+  });
+});
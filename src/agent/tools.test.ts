@@ -1,10 +1,38 @@
-import { describe, expect, it } from 'vitest';
+import { afterEach, describe, expect, it } from 'vitest';
 import {
+  BUILT_IN_TOOL_NAMES,
   CURSOR_MOVE_DURATION_MS,
+  classifyLoadMoreLabel,
+  clearRegisteredTools,
   SCROLL_DURATION_MS,
   computeCenteredScrollTop,
+  computeDirectionalScrollTop,
+  describeStateChanges,
+  executeSingleToolCall,
+  findTextBoundary,
+  formatKeyCombo,
+  formatValidationIssue,
+  getKeyCode,
+  getRegisteredToolSchemas,
+  isDomSettled,
   isRectOutsideViewport,
+  matchFormFields,
+  matchOptionIndex,
+  matchesUrlPattern,
+  mergeValidationMessages,
+  normalizeDateValue,
+  normalizeFieldKey,
+  parseBooleanValue,
   parseAgentResponse,
+  parseKeyCombo,
+  registerTool,
+  resolveTypingOptions,
+  serializeToolOutcome,
+  parseLocalizedNumber,
+  snapToStep,
+  unregisterTool,
+  waitForDomSettle,
+  type ToolCallWithId,
 } from './tools';
 
 describe('parseAgentResponse', () => {
@@ -80,6 +108,37 @@ describe('parseAgentResponse', () => {
     expect(parsed.toolCalls).toEqual([{ tool: 'getPageContext' }]);
   });
 
+  it('parses select actions with numeric option values', () => {
+    const raw = JSON.stringify({
+      reply: 'Ülke seçiliyor',
+      tool_calls: [
+        { tool: 'interact', action: 'select', id: 7, label: 'Türkiye' },
+        { tool: 'interact', action: 'select', id: 8, value: 2 },
+      ],
+    });
+
+    const parsed = parseAgentResponse(raw);
+    expect(parsed.toolCalls).toEqual([
+      { tool: 'interact', action: 'select', id: 7, label: 'Türkiye' },
+      { tool: 'interact', action: 'select', id: 8, value: '2' },
+    ]);
+  });
+
+  it('drops press actions without a key', () => {
+    const raw = JSON.stringify({
+      reply: 'Tuşa basıyorum',
+      tool_calls: [
+        { tool: 'interact', action: 'press', key: 'Enter', modifiers: ['shift', 3] },
+        { tool: 'interact', action: 'press' },
+      ],
+    });
+
+    const parsed = parseAgentResponse(raw);
+    expect(parsed.toolCalls).toEqual([
+      { tool: 'interact', action: 'press', key: 'Enter', modifiers: ['shift'] },
+    ]);
+  });
+
   it('parses scroll tool calls', () => {
     const raw = JSON.stringify({
       reply: 'Bölüme kaydırıyorum',
@@ -114,3 +173,547 @@ describe('scroll helpers', () => {
     expect(SCROLL_DURATION_MS).toBe(900);
   });
 });
+
+describe('custom tool registry', () => {
+  afterEach(() => {
+    clearRegisteredTools();
+  });
+
+  it('lists registered tools with their schemas', () => {
+    registerTool('applyCoupon', {
+      description: 'Kupon uygula',
+      argsSchema: { type: 'object', properties: { code: { type: 'string' } } },
+      handler: () => 'ok',
+    });
+
+    expect(getRegisteredToolSchemas()).toEqual([
+      {
+        name: 'applyCoupon',
+        description: 'Kupon uygula',
+        args_schema: { type: 'object', properties: { code: { type: 'string' } } },
+      },
+    ]);
+  });
+
+  it('unregisters a single tool', () => {
+    registerTool('applyCoupon', { description: 'x', handler: () => 'ok' });
+    registerTool('clearCart', { description: 'y', handler: () => 'ok' });
+
+    expect(unregisterTool('applyCoupon')).toBe(true);
+    expect(unregisterTool('applyCoupon')).toBe(false);
+    expect(getRegisteredToolSchemas().map((schema) => schema.name)).toEqual(['clearCart']);
+  });
+
+  it('rejects built-in and malformed tool names', () => {
+    const definition = { description: 'x', handler: () => 'ok' };
+    for (const name of BUILT_IN_TOOL_NAMES) {
+      expect(() => registerTool(name, definition)).toThrow(/built-in/);
+    }
+    expect(() => registerTool('bad name', definition)).toThrow();
+  });
+
+  it('dispatches registered tools with their arguments', async () => {
+    registerTool('applyCoupon', {
+      description: 'Kupon uygula',
+      handler: async (args) => ({ applied: args.code }),
+    });
+
+    const result = await executeSingleToolCall({
+      tool: 'applyCoupon',
+      call_id: 'c1',
+      code: 'YAZ10',
+    } as unknown as ToolCallWithId);
+
+    expect(result).toEqual({ call_id: 'c1', result: '{"applied":"YAZ10"}' });
+  });
+
+  it('reports handler errors as tool results', async () => {
+    registerTool('applyCoupon', {
+      description: 'Kupon uygula',
+      handler: () => { throw new Error('Geçersiz kupon'); },
+    });
+
+    const result = await executeSingleToolCall({
+      tool: 'applyCoupon',
+      call_id: 'c2',
+    } as unknown as ToolCallWithId);
+
+    expect(result.result).toBe('Hata: Geçersiz kupon');
+  });
+});
+
+describe('structured tool outcomes', () => {
+  const snapshot = { url: 'https://example.com/a', connected: true, value: '', states: ['Unchecked'] };
+
+  it('reports value, state and url changes', () => {
+    const changes = describeStateChanges(snapshot, {
+      url: 'https://example.com/b',
+      connected: true,
+      value: 'Ankara',
+      states: ['Checked'],
+    });
+
+    expect(changes).toEqual([
+      'url: https://example.com/a -> https://example.com/b',
+      'value: "" -> "Ankara"',
+      'state: Unchecked -> Checked',
+    ]);
+  });
+
+  it('reports removed elements and nothing else when unchanged', () => {
+    expect(describeStateChanges(snapshot, snapshot)).toEqual([]);
+    expect(describeStateChanges(snapshot, { ...snapshot, connected: false })).toEqual([
+      'element removed from page',
+    ]);
+  });
+
+  it('serializes failures with reason codes', () => {
+    const payload = JSON.parse(serializeToolOutcome({
+      status: 'failed',
+      action: 'type',
+      reason: 'not_editable',
+      target: '[4] Button: "Gönder"',
+    }));
+
+    expect(payload).toEqual({
+      status: 'failed',
+      action: 'type',
+      reason: 'not_editable',
+      target: '[4] Button: "Gönder"',
+    });
+  });
+});
+
+describe('DOM settle detection', () => {
+  const settled = {
+    readyState: 'complete' as DocumentReadyState,
+    pendingResources: 0,
+    msSinceLastMutation: 400,
+    msSinceUrlChange: 400,
+  };
+
+  it('requires a loaded document with no pending resources', () => {
+    expect(isDomSettled(settled, 300)).toBe(true);
+    expect(isDomSettled({ ...settled, readyState: 'interactive' }, 300)).toBe(false);
+    expect(isDomSettled({ ...settled, pendingResources: 2 }, 300)).toBe(false);
+  });
+
+  it('waits for mutations and route changes to go quiet', () => {
+    expect(isDomSettled({ ...settled, msSinceLastMutation: 120 }, 300)).toBe(false);
+    expect(isDomSettled({ ...settled, msSinceUrlChange: 10 }, 300)).toBe(false);
+  });
+
+  it('resolves immediately outside the browser', async () => {
+    await expect(waitForDomSettle()).resolves.toEqual({ settleMs: 0, timedOut: false });
+  });
+});
+
+describe('matchOptionIndex', () => {
+  const options = [
+    { value: '', label: 'Seçiniz' },
+    { value: 'tr', label: 'Türkiye' },
+    { value: 'de', label: 'Almanya' },
+    { value: 'express', label: 'Hızlı Kargo (1 gün)' },
+  ];
+
+  it('matches by index, value and label', () => {
+    expect(matchOptionIndex(options, { index: 2 })).toBe(2);
+    expect(matchOptionIndex(options, { value: 'tr' })).toBe(1);
+    expect(matchOptionIndex(options, { label: 'almanya' })).toBe(2);
+  });
+
+  it('falls back to partial label matches', () => {
+    expect(matchOptionIndex(options, { label: 'Hızlı Kargo' })).toBe(3);
+    expect(matchOptionIndex(options, { value: 'TÜRKİYE' })).toBe(1);
+  });
+
+  it('returns -1 for unknown or out-of-range queries', () => {
+    expect(matchOptionIndex(options, { label: 'Fransa' })).toBe(-1);
+    expect(matchOptionIndex(options, { index: 9 })).toBe(-1);
+    expect(matchOptionIndex(options, {})).toBe(-1);
+  });
+});
+
+describe('key combos', () => {
+  it('parses shortcuts with modifier aliases', () => {
+    expect(parseKeyCombo('Ctrl+K')).toEqual({ key: 'k', modifiers: ['ctrl'] });
+    expect(parseKeyCombo('cmd+shift+p')).toEqual({ key: 'P', modifiers: ['shift', 'meta'] });
+    expect(parseKeyCombo('Tab', ['Shift'])).toEqual({ key: 'Tab', modifiers: ['shift'] });
+  });
+
+  it('normalizes key aliases and the plus key', () => {
+    expect(parseKeyCombo('esc')).toEqual({ key: 'Escape', modifiers: [] });
+    expect(parseKeyCombo('down')).toEqual({ key: 'ArrowDown', modifiers: [] });
+    expect(parseKeyCombo('Ctrl++')).toEqual({ key: '+', modifiers: ['ctrl'] });
+    expect(parseKeyCombo('Shift')).toEqual({ key: 'Shift', modifiers: [] });
+    expect(parseKeyCombo('  ')).toBeNull();
+  });
+
+  it('formats combos and resolves physical key codes', () => {
+    expect(formatKeyCombo({ key: 'k', modifiers: ['ctrl'] })).toBe('Ctrl+K');
+    expect(formatKeyCombo({ key: ' ', modifiers: [] })).toBe('Space');
+    expect(getKeyCode('k')).toBe('KeyK');
+    expect(getKeyCode('7')).toBe('Digit7');
+    expect(getKeyCode('Enter')).toBe('Enter');
+  });
+});
+
+describe('typing options', () => {
+  it('defaults to instant replacement', () => {
+    expect(resolveTypingOptions({})).toEqual({ mode: 'instant', delayMs: 40, append: false });
+  });
+
+  it('lets the element opt into realistic typing with its own cadence', () => {
+    expect(resolveTypingOptions({}, { mode: 'realistic', delay: '120' })).toEqual({
+      mode: 'realistic',
+      delayMs: 120,
+      append: false,
+    });
+  });
+
+  it('prefers call options over element attributes and clamps the delay', () => {
+    expect(
+      resolveTypingOptions({ typing: 'instant', delay: 5000, append: true }, { mode: 'realistic', delay: '10' }),
+    ).toEqual({ mode: 'instant', delayMs: 500, append: true });
+    expect(resolveTypingOptions({ delay: -5 }).delayMs).toBe(0);
+  });
+
+  it('ignores unknown attribute modes', () => {
+    expect(resolveTypingOptions({}, { mode: 'fast', delay: 'soon' }).mode).toBe('instant');
+  });
+
+  it('parses typing fields on type actions', () => {
+    const parsed = parseAgentResponse(JSON.stringify({
+      reply: '',
+      tool_calls: [{ tool: 'interact', action: 'type', id: 3, text: '555', typing: 'realistic', delay: 80, append: true }],
+    }));
+
+    expect(parsed.toolCalls[0]).toMatchObject({ typing: 'realistic', delay: 80, append: true });
+  });
+});
+
+describe('findTextBoundary', () => {
+  it('finds the position after text spanning several text nodes', () => {
+    expect(findTextBoundary(['Merhaba ', 'dün', 'ya'], 'dünya')).toEqual({ index: 2, offset: 2 });
+    expect(findTextBoundary(['Merhaba ', 'dünya'], 'Merhaba')).toEqual({ index: 0, offset: 7 });
+  });
+
+  it('falls back to a Turkish-aware case-insensitive match', () => {
+    expect(findTextBoundary(['İSTANBUL şubesi'], 'istanbul')).toEqual({ index: 0, offset: 8 });
+  });
+
+  it('returns null for missing or empty text', () => {
+    expect(findTextBoundary(['Merhaba'], 'dünya')).toBeNull();
+    expect(findTextBoundary(['Merhaba'], '')).toBeNull();
+  });
+
+  it('parses caret fields on type actions', () => {
+    const parsed = parseAgentResponse(JSON.stringify({
+      reply: '',
+      tool_calls: [{ tool: 'interact', action: 'type', id: 4, text: '!', caret: 'end', caretAfter: 'Merhaba' }],
+    }));
+
+    expect(parsed.toolCalls[0]).toMatchObject({ caret: 'end', caretAfter: 'Merhaba' });
+  });
+});
+
+describe('parseLocalizedNumber', () => {
+  it('reads the last separator as the decimal point when both appear', () => {
+    expect(parseLocalizedNumber('1.234,5')).toBe(1234.5);
+    expect(parseLocalizedNumber('1,234.5')).toBe(1234.5);
+    expect(parseLocalizedNumber('1.234.567,89')).toBe(1234567.89);
+  });
+
+  it('reads a single comma or dot as the decimal point', () => {
+    expect(parseLocalizedNumber('0,5')).toBe(0.5);
+    expect(parseLocalizedNumber('2.75')).toBe(2.75);
+    expect(parseLocalizedNumber('-12,5')).toBe(-12.5);
+  });
+
+  it('reads a repeated separator as thousands grouping', () => {
+    expect(parseLocalizedNumber('1.234.567')).toBe(1234567);
+    expect(parseLocalizedNumber('1,234,567')).toBe(1234567);
+  });
+
+  it('flags one separator before exactly three digits as ambiguous', () => {
+    expect(parseLocalizedNumber('1,234')).toBe('ambiguous');
+    expect(parseLocalizedNumber('1.000')).toBe('ambiguous');
+    expect(parseLocalizedNumber('0,250')).toBe(0.25);
+  });
+
+  it('rejects malformed grouping and non-numbers', () => {
+    expect(parseLocalizedNumber('1,23,4.5')).toBeNull();
+    expect(parseLocalizedNumber('1.2.3')).toBeNull();
+    expect(parseLocalizedNumber('abc')).toBeNull();
+    expect(parseLocalizedNumber('')).toBeNull();
+  });
+});
+
+describe('snapToStep', () => {
+  it('clamps into min and max', () => {
+    expect(snapToStep(150, { min: 0, max: 100, step: 1 })).toBe(100);
+    expect(snapToStep(-3, { min: 0, max: 100, step: 1 })).toBe(0);
+  });
+
+  it('snaps to the nearest step counted from min', () => {
+    expect(snapToStep(12, { min: 1, max: 100, step: 5 })).toBe(11);
+    expect(snapToStep(0.37, { min: 0, max: 1, step: 0.1 })).toBe(0.4);
+  });
+
+  it('keeps the highest valid step when max is off-step', () => {
+    expect(snapToStep(10, { min: 0, max: 10, step: 3 })).toBe(9);
+  });
+
+  it('does not snap for step any or unbounded number inputs', () => {
+    expect(snapToStep(3.14159, { min: 0, max: 10, step: 'any' })).toBe(3.14159);
+    expect(snapToStep(-42, {})).toBe(-42);
+  });
+
+  it('drops setValue calls without a value', () => {
+    const parsed = parseAgentResponse(JSON.stringify({
+      reply: '',
+      tool_calls: [
+        { tool: 'interact', action: 'setValue', id: 2 },
+        { tool: 'interact', action: 'setValue', id: 2, value: 40 },
+      ],
+    }));
+
+    expect(parsed.toolCalls).toHaveLength(1);
+    expect(parsed.toolCalls[0]).toMatchObject({ action: 'setValue', value: '40' });
+  });
+});
+
+describe('check actions', () => {
+  it('parses check and uncheck interact actions', () => {
+    const parsed = parseAgentResponse(JSON.stringify({
+      reply: '',
+      tool_calls: [
+        { tool: 'interact', action: 'check', id: 5 },
+        { tool: 'interact', action: 'uncheck', selector: '#newsletter' },
+      ],
+    }));
+
+    expect(parsed.toolCalls.map((call) => call.tool === 'interact' && call.action)).toEqual(['check', 'uncheck']);
+  });
+});
+
+describe('pointer gesture actions', () => {
+  it('parses doubleClick, contextClick and longPress', () => {
+    const parsed = parseAgentResponse(JSON.stringify({
+      reply: '',
+      tool_calls: [
+        { tool: 'interact', action: 'doubleClick', id: 1 },
+        { tool: 'interact', action: 'contextClick', x: 40, y: 80 },
+        { tool: 'interact', action: 'longPress', selector: '.row' },
+      ],
+    }));
+
+    expect(parsed.toolCalls.map((call) => call.tool === 'interact' && call.action)).toEqual([
+      'doubleClick',
+      'contextClick',
+      'longPress',
+    ]);
+  });
+});
+
+describe('waitFor tool', () => {
+  it('parses explicit and inferred conditions', () => {
+    const parsed = parseAgentResponse(JSON.stringify({
+      reply: '',
+      tool_calls: [
+        { tool: 'waitFor', condition: 'hidden', selector: '.spinner', timeout: 5000 },
+        { tool: 'waitFor', text: 'Kaydedildi' },
+        { tool: 'waitFor', url: '/siparis/' },
+        { tool: 'waitFor', id: 7, attribute: 'aria-busy', value: 'false' },
+        { tool: 'waitFor', id: 9 },
+      ],
+    }));
+
+    expect(parsed.toolCalls).toEqual([
+      { tool: 'waitFor', condition: 'hidden', selector: '.spinner', timeout: 5000 },
+      { tool: 'waitFor', condition: 'text', text: 'Kaydedildi' },
+      { tool: 'waitFor', condition: 'url', url: '/siparis/' },
+      { tool: 'waitFor', condition: 'attribute', id: 7, attribute: 'aria-busy', value: 'false' },
+      { tool: 'waitFor', condition: 'visible', id: 9 },
+    ]);
+  });
+
+  it('drops calls missing what the condition needs', () => {
+    const parsed = parseAgentResponse(JSON.stringify({
+      reply: '',
+      tool_calls: [
+        { tool: 'waitFor' },
+        { tool: 'waitFor', condition: 'visible' },
+        { tool: 'waitFor', condition: 'url' },
+        { tool: 'waitFor', condition: 'attribute', selector: '#save' },
+      ],
+    }));
+
+    expect(parsed.toolCalls).toEqual([]);
+  });
+
+  it('matches URLs by substring or /regex/', () => {
+    expect(matchesUrlPattern('https://shop.test/siparis/42', '/siparis/')).toBe(true);
+    expect(matchesUrlPattern('https://shop.test/siparis/42', '/\\/siparis\\/\\d+$/')).toBe(true);
+    expect(matchesUrlPattern('https://shop.test/sepet', '/siparis/')).toBe(false);
+    expect(matchesUrlPattern('https://shop.test/SEPET', '/sepet/i')).toBe(true);
+  });
+});
+
+describe('directional scroll', () => {
+  it('pages down and up with overlap and clamps to the scroll range', () => {
+    expect(computeDirectionalScrollTop(0, 800, 3000, 'down')).toBe(720);
+    expect(computeDirectionalScrollTop(2800, 800, 3000, 'down')).toBe(3000);
+    expect(computeDirectionalScrollTop(300, 800, 3000, 'up')).toBe(0);
+    expect(computeDirectionalScrollTop(1000, 800, 3000, 'down', 'half')).toBe(1400);
+  });
+
+  it('jumps to the top and bottom', () => {
+    expect(computeDirectionalScrollTop(1200, 800, 3000, 'top')).toBe(0);
+    expect(computeDirectionalScrollTop(1200, 800, 3000, 'bottom')).toBe(3000);
+    expect(computeDirectionalScrollTop(0, 800, -20, 'bottom')).toBe(0);
+  });
+
+  it('parses direction-only scroll calls with a container', () => {
+    const parsed = parseAgentResponse(JSON.stringify({
+      reply: '',
+      tool_calls: [
+        { tool: 'scroll', direction: 'down', amount: 'half', container: 14 },
+        { tool: 'scroll', direction: 'sideways' },
+      ],
+    }));
+
+    expect(parsed.toolCalls).toEqual([
+      { tool: 'scroll', direction: 'down', amount: 'half', container: 14 },
+    ]);
+  });
+});
+
+describe('loadMore tool', () => {
+  it('classifies load-more and next-page labels', () => {
+    expect(classifyLoadMoreLabel('Daha Fazla Göster')).toBe('loadMore');
+    expect(classifyLoadMoreLabel('  Load more  ')).toBe('loadMore');
+    expect(classifyLoadMoreLabel('Sonraki sayfa')).toBe('nextPage');
+    expect(classifyLoadMoreLabel('»')).toBe('nextPage');
+    expect(classifyLoadMoreLabel('Sepete ekle')).toBeNull();
+    expect(classifyLoadMoreLabel('Sonraki adımda ödeme bilgilerinizi girersiniz')).toBeNull();
+  });
+
+  it('parses loadMore calls', () => {
+    const parsed = parseAgentResponse(JSON.stringify({
+      reply: '',
+      tool_calls: [{ tool: 'loadMore', container: 21, maxIterations: 5 }, { tool: 'loadMore' }],
+    }));
+
+    expect(parsed.toolCalls).toEqual([
+      { tool: 'loadMore', container: 21, maxIterations: 5 },
+      { tool: 'loadMore' },
+    ]);
+  });
+
+  it('reserves the loadMore and waitFor tool names', () => {
+    expect(() => registerTool('loadMore', { description: 'x', handler: () => 'ok' })).toThrow(/built-in/);
+    expect(() => registerTool('waitFor', { description: 'x', handler: () => 'ok' })).toThrow(/built-in/);
+  });
+});
+
+describe('readTable tool', () => {
+  it('parses readTable calls and drops calls without an id', () => {
+    const parsed = parseAgentResponse(JSON.stringify({
+      reply: '',
+      tool_calls: [{ tool: 'readTable', id: 40, page: 2 }, { tool: 'readTable' }],
+    }));
+
+    expect(parsed.toolCalls).toEqual([{ tool: 'readTable', id: 40, page: 2 }]);
+  });
+
+  it('reserves the readTable tool name', () => {
+    expect(() => registerTool('readTable', { description: 'x', handler: () => 'ok' })).toThrow(/built-in/);
+  });
+});
+
+describe('fillForm tool', () => {
+  it('normalizes field names like label text', () => {
+    expect(normalizeFieldKey('billing_address[zipCode]')).toBe('billing address zip code');
+    expect(normalizeFieldKey('  Doğum Tarihi ')).toBe('dogum tarihi');
+  });
+
+  it('matches keys to fields by label, placeholder and name', () => {
+    const candidates = [
+      { ref: 'email', labels: [{ text: 'E-posta adresi', source: 'label' as const }, { text: 'user_email', source: 'name' as const }] },
+      { ref: 'phone', labels: [{ text: '05xx xxx xx xx', source: 'placeholder' as const }, { text: 'phone', source: 'name' as const }] },
+      { ref: 'city', labels: [{ text: 'Şehir', source: 'label' as const }, { text: 'Teslimat Adresi', source: 'legend' as const }] },
+    ];
+
+    const matched = matchFormFields(['e-posta', 'phone', 'sehir', 'Faks'], candidates);
+    expect(Object.fromEntries(matched)).toEqual({ 'e-posta': 'email', phone: 'phone', sehir: 'city', Faks: null });
+  });
+
+  it('gives each field to the key that matches it best', () => {
+    const candidates = [
+      { ref: 'first', labels: [{ text: 'Ad', source: 'label' as const }] },
+      { ref: 'last', labels: [{ text: 'Soyad', source: 'label' as const }] },
+    ];
+
+    const matched = matchFormFields(['Soyad', 'Ad'], candidates);
+    expect(matched.get('Ad')).toBe('first');
+    expect(matched.get('Soyad')).toBe('last');
+  });
+
+  it('reads checkbox values in Turkish and English', () => {
+    expect(parseBooleanValue(true)).toBe(true);
+    expect(parseBooleanValue('Evet')).toBe(true);
+    expect(parseBooleanValue('HAYIR')).toBe(false);
+    expect(parseBooleanValue('off')).toBe(false);
+    expect(parseBooleanValue('belki')).toBeUndefined();
+    expect(parseBooleanValue(['evet'])).toBeUndefined();
+  });
+
+  it('converts day-first and ISO dates to input formats', () => {
+    expect(normalizeDateValue('12.03.2026', 'date')).toBe('2026-03-12');
+    expect(normalizeDateValue('2026-3-5', 'date')).toBe('2026-03-05');
+    expect(normalizeDateValue('31/02/2026', 'date')).toBeNull();
+    expect(normalizeDateValue('12.03.2026 9:30', 'datetime-local')).toBe('2026-03-12T09:30');
+    expect(normalizeDateValue('9.05', 'time')).toBe('09:05');
+    expect(normalizeDateValue('03.2026', 'month')).toBe('2026-03');
+    expect(normalizeDateValue('2026-w11', 'week')).toBe('2026-W11');
+    expect(normalizeDateValue('yarın', 'date')).toBeNull();
+  });
+
+  it('parses fillForm calls and keeps supported values', () => {
+    const parsed = parseAgentResponse(JSON.stringify({
+      reply: '',
+      tool_calls: [
+        { tool: 'fillForm', id: 8, values: { 'E-posta': 'a@b.com', Adet: 2, Bülten: true, İlgi: ['Spor', 'Müzik'], Not: '', bad: null } },
+        { tool: 'fillForm', id: 8 },
+        { tool: 'fillForm', values: { Ad: 'Ece' } },
+      ],
+    }));
+
+    expect(parsed.toolCalls).toEqual([
+      { tool: 'fillForm', id: 8, values: { 'E-posta': 'a@b.com', Adet: '2', Bülten: true, İlgi: ['Spor', 'Müzik'], Not: '' } },
+    ]);
+  });
+});
+
+describe('submit validation feedback', () => {
+  it('drops empty and repeated messages', () => {
+    expect(mergeValidationMessages([
+      'Lütfen bu alanı doldurun.',
+      '  lütfen bu alanı   doldurun ',
+      '',
+      'E-posta geçersiz',
+    ])).toEqual(['Lütfen bu alanı doldurun.', 'E-posta geçersiz']);
+  });
+
+  it('formats field and form-level issues', () => {
+    expect(formatValidationIssue({
+      field: '[12] Input: "E-posta"',
+      messages: ['Geçerli bir e-posta girin.', 'Geçerli bir e-posta girin'],
+      sources: ['constraint', 'aria-invalid'],
+    })).toBe('- [12] Input: "E-posta": Geçerli bir e-posta girin. (constraint, aria-invalid)');
+
+    expect(formatValidationIssue({ messages: ['Kart reddedildi.'], sources: ['alert'] }))
+      .toBe('- Kart reddedildi. (alert)');
+  });
+});
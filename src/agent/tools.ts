@@ -9,6 +9,23 @@ export type {
   ToolCallWithId,
   ToolCallResult,
   PendingAgentResume,
+  CustomToolDefinition,
+  CustomToolSchema,
+  ToolOutcome,
+  ToolFailureReason,
+  KeyModifier,
+  TypingMode,
+  CaretPosition,
+  WaitCondition,
+  ScrollDirection,
+  ScrollAmount,
+  WaitForToolCall,
+  LoadMoreToolCall,
+  FindToolCall,
+  ReadElementToolCall,
+  ReadTableToolCall,
+  FillFormToolCall,
+  FillFormValue,
 } from "./tools/types";
 export {
   savePendingAgentResume,
@@ -16,13 +33,33 @@ export {
   clearPendingAgentResume,
 } from "./tools/resume";
 export { parseAgentResponse } from "./tools/parser";
+export {
+  registerTool,
+  unregisterTool,
+  getRegisteredToolSchemas,
+  clearRegisteredTools,
+  BUILT_IN_TOOL_NAMES,
+} from "./tools/registry";
+export type { BuiltInToolName } from "./tools/registry";
+export { serializeToolOutcome, describeStateChanges } from "./tools/results";
+export { isDomSettled, waitForDomSettle } from "./tools/settle";
+export { matchOptionIndex } from "./tools/select";
+export { parseKeyCombo, formatKeyCombo, getKeyCode } from "./tools/keyboard";
+export { resolveTypingOptions, findTextBoundary } from "./tools/typing";
+export { parseLocalizedNumber, snapToStep } from "./tools/slider";
+export { matchesUrlPattern } from "./tools/wait";
+export { classifyLoadMoreLabel } from "./tools/loadMore";
+export { normalizeDateValue, parseBooleanValue, matchFormFields, normalizeFieldKey } from "./tools/forms";
+export { formatValidationIssue, mergeValidationMessages } from "./tools/validation";
 export {
   clamp,
   easeInOutCubic,
   easeInOutSine,
   isRectOutsideViewport,
   computeCenteredScrollTop,
+  computeDirectionalScrollTop,
   animateWindowScrollTo,
+  animateElementScrollTo,
 } from "./tools/animation";
 export { hideAgentCursor } from "./tools/cursor";
 export { executeToolCalls, executeSingleToolCall } from "./tools/executors";
@@ -1,4 +1,6 @@
+import { getElementWindow } from "../context/domTraversal";
 import { SCROLL_DURATION_MS } from "./constants";
+import type { ScrollAmount, ScrollDirection } from "./types";
 
 export const clamp = (value: number, min: number, max: number): number =>
   Math.min(max, Math.max(min, value));
@@ -28,13 +30,55 @@ export const computeCenteredScrollTop = (
   return clamp(desired, 0, Math.max(0, maxScrollTop));
 };
 
+/** Keep part of the previous view visible when paging, like browsers do. */
+const PAGE_SCROLL_RATIO = 0.9;
+
+export const computeDirectionalScrollTop = (
+  currentTop: number,
+  viewportHeight: number,
+  maxScrollTop: number,
+  direction: ScrollDirection,
+  amount: ScrollAmount = "page",
+): number => {
+  if (direction === "top") return 0;
+  if (direction === "bottom") return Math.max(0, maxScrollTop);
+  const distance = viewportHeight * (amount === "half" ? 0.5 : PAGE_SCROLL_RATIO);
+  const desired = currentTop + (direction === "down" ? distance : -distance);
+  return clamp(Math.round(desired), 0, Math.max(0, maxScrollTop));
+};
+
+const SCROLLABLE_OVERFLOW = new Set(["auto", "scroll", "overlay"]);
+
+export const isScrollableElement = (element: Element): boolean => {
+  if (element.scrollHeight <= element.clientHeight + 1) return false;
+  return SCROLLABLE_OVERFLOW.has(getElementWindow(element).getComputedStyle(element).overflowY);
+};
+
+/** Nearest scrolling ancestor below the element's document, or null for its window. */
+export const findScrollableAncestor = (element: Element): HTMLElement | null => {
+  const { body, documentElement } = element.ownerDocument;
+  let current = element.parentElement;
+  while (current && current !== body && current !== documentElement) {
+    if (isScrollableElement(current)) return current;
+    current = current.parentElement;
+  }
+  return null;
+};
+
 export const animateWindowScrollTo = async (
   targetY: number,
   durationMs: number = SCROLL_DURATION_MS,
+): Promise<void> => animateElementScrollTo(null, targetY, durationMs);
+
+/** Animate `scroller.scrollTop` (the window when null) to `targetY`. */
+export const animateElementScrollTo = async (
+  scroller: HTMLElement | null,
+  targetY: number,
+  durationMs: number = SCROLL_DURATION_MS,
 ): Promise<void> => {
   if (typeof window === "undefined") return;
 
-  const startY = window.scrollY;
+  const startY = scroller ? scroller.scrollTop : window.scrollY;
   const delta = targetY - startY;
   if (Math.abs(delta) < 1) return;
 
@@ -49,7 +93,8 @@ export const animateWindowScrollTo = async (
       const elapsed = now - startTime;
       const progress = clamp(elapsed / durationMs, 0, 1);
       const eased = easeInOutSine(progress);
-      window.scrollTo(0, startY + delta * eased);
+      if (scroller) scroller.scrollTop = startY + delta * eased;
+      else window.scrollTo(0, startY + delta * eased);
 
       if (progress < 1) raf(step);
       else resolve();
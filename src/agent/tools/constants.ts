@@ -1,4 +1,6 @@
 export const AGENT_CURSOR_ID = "auticbot-agent-cursor";
+export const BULUT_HOST_ID = "bulut-container";
+export const BULUT_MOUNT_ID = "bulut-shadow-mount";
 export const CURSOR_MOVE_DURATION_MS = 900;
 export const SCROLL_DURATION_MS = 900;
 export const CURSOR_EASING = "cubic-bezier(0.4, 0, 0.2, 1)";
@@ -7,3 +9,27 @@ export const CURSOR_DIAMETER_PX = 25;
 
 export const RESUME_STORAGE_KEY = "bulut_agent_resume";
 export const RESUME_TTL_MS = 5 * 60_000;
+
+export const DOM_SETTLE_QUIET_MS = 300;
+export const DOM_SETTLE_POLL_MS = 50;
+export const DOM_SETTLE_TIMEOUT_MS = 5000;
+export const CLICK_SETTLE_TIMEOUT_MS = 2000;
+export const LONG_PRESS_DURATION_MS = 600;
+
+export const SELECT_OPTION_WAIT_MS = 1000;
+
+export const REALISTIC_TYPING_DELAY_MS = 40;
+export const MAX_REALISTIC_TYPING_DELAY_MS = 500;
+
+export const SLIDER_STEP_WAIT_MS = 30;
+export const MAX_SLIDER_KEY_PRESSES = 100;
+
+export const WAIT_FOR_DEFAULT_TIMEOUT_MS = 10_000;
+export const WAIT_FOR_MAX_TIMEOUT_MS = 30_000;
+export const WAIT_FOR_POLL_MS = 100;
+
+export const LOAD_MORE_DEFAULT_ITERATIONS = 3;
+export const LOAD_MORE_MAX_ITERATIONS = 10;
+export const LOAD_MORE_WAIT_MS = 4000;
+export const LOAD_MORE_MAX_SNIPPETS = 30;
+export const LOAD_MORE_SNIPPET_LENGTH = 160;
@@ -1,6 +1,8 @@
 import { COLORS } from "../../styles/constants";
+import { getFrameOffset } from "../context/domTraversal";
 import {
   AGENT_CURSOR_ID,
+  BULUT_HOST_ID,
   CURSOR_MOVE_DURATION_MS,
   CURSOR_EASING,
   CURSOR_HOVER_RADIUS_PX,
@@ -15,7 +17,7 @@ const isVisibleElement = (element: HTMLElement): boolean => {
 const getBulutShadowRoots = (): ShadowRoot[] => {
   const roots: ShadowRoot[] = [];
 
-  const defaultHost = document.getElementById("bulut-container");
+  const defaultHost = document.getElementById(BULUT_HOST_ID);
   if (defaultHost?.shadowRoot) roots.push(defaultHost.shadowRoot);
 
   const allElements = document.querySelectorAll<HTMLElement>("*");
@@ -154,10 +156,12 @@ export const hideAgentCursor = (): void => {
   setCursorVisibility(cursor, false);
 };
 
+/** Page coordinates of the element's center; frame content is offset by its frames. */
 export const getElementCenter = (element: HTMLElement): { x: number; y: number } => {
   const rect = element.getBoundingClientRect();
+  const offset = getFrameOffset(element);
   return {
-    x: rect.left + window.scrollX + rect.width / 2,
-    y: rect.top + window.scrollY + rect.height / 2,
+    x: rect.left + offset.x + window.scrollX + rect.width / 2,
+    y: rect.top + offset.y + window.scrollY + rect.height / 2,
   };
 };
@@ -1,5 +1,42 @@
-import { getPageContext, getElementById, invalidateCurrentPageContext } from "../context";
-import { SCROLL_DURATION_MS } from "./constants";
+import {
+  getPageContext,
+  getElementById,
+  invalidateCurrentPageContext,
+  isElementDisabled,
+  captureScannedElements,
+  listRevealedInteractables,
+  findInPage,
+  formatFindMatch,
+  MAX_FIND_RESULTS,
+  chunkText,
+  extractStructuredText,
+  extractHeadingSection,
+  findHeadingByText,
+  getMainContentRoot,
+  isHeadingElement,
+  findEnclosingTable,
+  readTableElement,
+  formatTableRow,
+  TABLE_ROWS_PER_PAGE,
+  registerElement,
+  isStaleElementId,
+  computeAccessibleName,
+  isInstanceOf,
+  deepQuerySelector,
+  deepQuerySelectorAll,
+  getFrameElement,
+  isBulutHost,
+  getDeepActiveElement,
+} from "../context";
+import {
+  SCROLL_DURATION_MS,
+  CLICK_SETTLE_TIMEOUT_MS,
+  WAIT_FOR_DEFAULT_TIMEOUT_MS,
+  WAIT_FOR_MAX_TIMEOUT_MS,
+  LOAD_MORE_DEFAULT_ITERATIONS,
+  LOAD_MORE_MAX_ITERATIONS,
+  LOAD_MORE_WAIT_MS,
+} from "./constants";
 import type {
   AgentToolCall,
   InteractToolCall,
@@ -7,13 +44,67 @@ import type {
   ScrollToolCall,
   ToolCallWithId,
   ToolCallResult,
+  ToolOutcome,
+  ResolvedTarget,
+  WaitForToolCall,
+  LoadMoreToolCall,
+  FindToolCall,
+  ReadElementToolCall,
+  ReadTableToolCall,
+  FillFormToolCall,
 } from "./types";
 import { moveCursor, getElementCenter } from "./cursor";
 import {
+  dispatchClick,
+  dispatchDoubleClick,
+  dispatchContextClick,
+  dispatchLongPress,
+  hoverElement,
+  elementAtPoint,
+} from "./pointer";
+import { getRegisteredTool, isBuiltInToolName, type BuiltInToolName } from "./registry";
+import { selectOption } from "./select";
+import {
+  parseKeyCombo,
+  formatKeyCombo,
+  dispatchKeyCombo,
+  performDefaultKeyAction,
+} from "./keyboard";
+import { waitForDomSettle, type DomSettleResult } from "./settle";
+import { typeIntoElement } from "./typing";
+import { setElementValue } from "./slider";
+import { setCheckedState } from "./toggle";
+import { createWaitCheck, waitForCondition } from "./wait";
+import { findLoadMoreControl, recordAddedContent, countElements } from "./loadMore";
+import { collectFormFields, matchFormFields, fillFormField } from "./forms";
+import {
+  captureErrorTexts,
+  collectValidationFeedback,
+  formatValidationIssue,
+  mergeValidationMessages,
+  recordAnnouncements,
+} from "./validation";
+import {
+  toolSuccess,
+  toolFailure,
+  serializeToolOutcome,
+  describeTarget,
+  captureElementSnapshot,
+  describeStateChanges,
+  settleFields,
+} from "./results";
+import {
+  clamp,
   isRectOutsideViewport,
   computeCenteredScrollTop,
+  computeDirectionalScrollTop,
   animateWindowScrollTo,
+  animateElementScrollTo,
+  findScrollableAncestor,
+  isScrollableElement,
 } from "./animation";
+import { executeInFrame } from "../bridge/parent";
+import { localizeFrameCall, scopeElementReferences } from "../bridge/protocol";
 
 // ── Selector resolution ─────────────────────────────────────────────
 
@@ -21,7 +112,7 @@ const CONTAINS_SELECTOR_PATTERN = /^(.*?):contains\((['"])(.*?)\2\)\s*$/;
 
 const findElementBySelector = (selector: string): Element | null => {
   try {
-    return document.querySelector(selector);
+    return deepQuerySelector(selector);
   } catch (error) {
     const containsMatch = selector.match(CONTAINS_SELECTOR_PATTERN);
     if (!containsMatch) {
@@ -37,10 +128,14 @@ const findElementBySelector = (selector: string): Element | null => {
     }
 
     try {
-      const candidates = document.querySelectorAll(baseSelector);
+      const candidates = deepQuerySelectorAll(baseSelector);
       for (const candidate of candidates) {
         if (candidate.textContent?.includes(expectedText)) return candidate;
       }
+      // Icon buttons and labelled fields carry their text in the accessible name.
+      for (const candidate of candidates) {
+        if (computeAccessibleName(candidate).includes(expectedText)) return candidate;
+      }
       return null;
     } catch (fallbackError) {
       console.warn(`AuticBot selector fallback invalid: ${selector}`, fallbackError);
@@ -49,16 +144,10 @@ const findElementBySelector = (selector: string): Element | null => {
   }
 };
 
-interface ResolvedTarget {
-  element?: HTMLElement;
-  x: number;
-  y: number;
-}
-
 const resolveTarget = (call: InteractToolCall): ResolvedTarget | null => {
   if (typeof call.id === "number") {
     const mapped = getElementById(call.id);
-    if (mapped instanceof HTMLElement) {
+    if (isInstanceOf(mapped, HTMLElement)) {
       const center = getElementCenter(mapped);
       return { element: mapped, x: center.x, y: center.y };
     }
@@ -67,7 +156,7 @@ const resolveTarget = (call: InteractToolCall): ResolvedTarget | null => {
 
   if (call.selector) {
     const selected = findElementBySelector(call.selector);
-    if (selected instanceof HTMLElement) {
+    if (isInstanceOf(selected, HTMLElement)) {
       const center = getElementCenter(selected);
       return { element: selected, x: center.x, y: center.y };
     }
@@ -75,7 +164,8 @@ const resolveTarget = (call: InteractToolCall): ResolvedTarget | null => {
   }
 
   if (typeof call.x === "number" && typeof call.y === "number") {
-    return { x: call.x, y: call.y };
+    const hit = elementAtPoint(call.x, call.y);
+    return { element: hit ?? undefined, x: call.x, y: call.y, fromPoint: true };
   }
 
   console.warn("AuticBot interact: missing target id, selector or coordinates.", call);
@@ -84,68 +174,49 @@ const resolveTarget = (call: InteractToolCall): ResolvedTarget | null => {
 
 // ── DOM interaction helpers ─────────────────────────────────────────
 
-const dispatchMouseEvent = (element: HTMLElement, type: string, x: number, y: number) => {
-  element.dispatchEvent(
-    new MouseEvent(type, {
-      bubbles: true,
-      cancelable: true,
-      view: window,
-      clientX: x - window.scrollX,
-      clientY: y - window.scrollY,
-    }),
-  );
+/** The form the element submits, or null when it is not in one. */
+const findSubmitForm = (element: HTMLElement): HTMLFormElement | null => {
+  if (isInstanceOf(element, HTMLFormElement)) return element;
+  if (isInstanceOf(element, HTMLButtonElement) && element.form) return element.form;
+  return element.closest("form");
 };
 
-const setNativeInputLikeValue = (
-  element: HTMLInputElement | HTMLTextAreaElement,
-  text: string,
-) => {
-  const prototype =
-    element instanceof HTMLTextAreaElement
-      ? HTMLTextAreaElement.prototype
-      : HTMLInputElement.prototype;
-  const descriptor = Object.getOwnPropertyDescriptor(prototype, "value");
-  if (descriptor?.set) descriptor.set.call(element, text);
-  else element.value = text;
-
-  element.defaultValue = text;
-  element.setAttribute("value", text);
-};
+interface SubmitFeedback {
+  settle: DomSettleResult;
+  /** Field and alert errors the page showed after the submit. */
+  validation: string[];
+  /** Non-error live-region text, e.g. "Mesajınız gönderildi". */
+  announcements: string[];
+}
 
-const typeIntoElement = (element: HTMLElement, text: string) => {
-  if (element instanceof HTMLInputElement || element instanceof HTMLTextAreaElement) {
-    element.focus();
-    setNativeInputLikeValue(element, text);
-    element.dispatchEvent(new Event("input", { bubbles: true }));
-    element.dispatchEvent(new Event("change", { bubbles: true }));
-    return;
+/** Submit the element's form and collect what the page reported back. */
+const submitElement = async (element: HTMLElement): Promise<SubmitFeedback | null> => {
+  const form = findSubmitForm(element);
+  if (!form) {
+    console.warn("AuticBot interact: submit action requires a form target.");
+    return null;
   }
 
-  if (element.isContentEditable) {
-    element.focus();
-    element.textContent = text;
-    element.dispatchEvent(new Event("input", { bubbles: true }));
-    return;
-  }
+  const errorsBefore = captureErrorTexts(form);
+  const recorder = recordAnnouncements();
+  form.requestSubmit();
+  const settle = await waitForDomSettle({ timeoutMs: CLICK_SETTLE_TIMEOUT_MS });
+  recorder.stop();
 
-  console.warn("AuticBot interact: type action requires input, textarea, or contenteditable target.");
-};
+  const reports = form.isConnected ? collectValidationFeedback(form, errorsBefore) : [];
+  const reported = new Set(reports.flatMap((report) => mergeValidationMessages(report.messages)));
+  const validation = [
+    ...reports.map((report) => formatValidationIssue({
+      field: report.element ? describeTarget(report.element, registerElement(report.element)) : undefined,
+      messages: report.messages,
+      sources: report.sources,
+    })),
+    ...recorder.alerts()
+      .filter((text) => !reported.has(text))
+      .map((text) => formatValidationIssue({ messages: [text], sources: ["alert"] })),
+  ];
 
-const submitElement = (element: HTMLElement) => {
-  if (element.tagName === "FORM") {
-    (element as HTMLFormElement).requestSubmit();
-    return;
-  }
-  if (element.tagName === "BUTTON" && (element as HTMLButtonElement).form) {
-    (element as HTMLButtonElement).form?.requestSubmit();
-    return;
-  }
-  const parentForm = element.closest("form");
-  if (parentForm) {
-    parentForm.requestSubmit();
-    return;
-  }
-  console.warn("AuticBot interact: submit action requires a form target.");
+  return { settle, validation, announcements: recorder.statuses() };
 };
 
 // ── Scrolling ───────────────────────────────────────────────────────
@@ -158,7 +229,45 @@ const slowScrollElementIntoViewWithMode = async (
   element: HTMLElement,
   forceCenter: boolean,
 ): Promise<void> => {
+  const container = findScrollableAncestor(element);
+  if (container) {
+    // Bring the scrolling region into view, then the element inside it.
+    await slowScrollElementIntoViewWithMode(container, false);
+    const containerRect = container.getBoundingClientRect();
+    const rect = element.getBoundingClientRect();
+    const relativeTop = rect.top - containerRect.top - container.clientTop;
+    const relativeRect = { top: relativeTop, bottom: relativeTop + rect.height };
+    if (!forceCenter && !isRectOutsideViewport(relativeRect, container.clientHeight)) return;
+
+    const targetTop = computeCenteredScrollTop(
+      container.scrollTop,
+      relativeTop,
+      rect.height,
+      container.clientHeight,
+      container.scrollHeight - container.clientHeight,
+    );
+    await animateElementScrollTo(container, targetTop, SCROLL_DURATION_MS);
+    return;
+  }
+
   const rect = element.getBoundingClientRect();
+  const frame = getFrameElement(element);
+  const frameScroller = frame ? element.ownerDocument.scrollingElement : null;
+  if (frame && isInstanceOf(frameScroller, HTMLElement)) {
+    // Bring the frame into view, then scroll its own document.
+    await slowScrollElementIntoViewWithMode(frame as HTMLElement, false);
+    if (!forceCenter && !isRectOutsideViewport(rect, frameScroller.clientHeight)) return;
+    const targetTop = computeCenteredScrollTop(
+      frameScroller.scrollTop,
+      rect.top,
+      rect.height,
+      frameScroller.clientHeight,
+      frameScroller.scrollHeight - frameScroller.clientHeight,
+    );
+    await animateElementScrollTo(frameScroller, targetTop, SCROLL_DURATION_MS);
+    return;
+  }
+
   const viewportHeight = window.innerHeight;
 
   if (!forceCenter && !isRectOutsideViewport(rect, viewportHeight)) return;
@@ -174,28 +283,189 @@ const slowScrollElementIntoViewWithMode = async (
   await animateWindowScrollTo(targetY, SCROLL_DURATION_MS);
 };
 
+/**
+ * The region to scroll for a directional scroll: the element itself when it
+ * scrolls, else its first scrolling descendant (a dialog's body), else its
+ * nearest scrolling ancestor. Null means the window.
+ */
+const resolveScrollRegion = (element: HTMLElement): HTMLElement | null => {
+  if (isScrollableElement(element)) return element;
+  for (const descendant of element.querySelectorAll<HTMLElement>("*")) {
+    if (isScrollableElement(descendant)) return descendant;
+  }
+  return findScrollableAncestor(element);
+};
+
 // ── Tool executors ──────────────────────────────────────────────────
 
-const executeScroll = async (call: ScrollToolCall) => {
+/**
+ * Failure for an ID whose element has left the page. IDs are never reused,
+ * so the agent must read fresh ones instead of acting on a guess.
+ */
+const staleIdFailure = (action: string, id: number | undefined): ToolOutcome | null =>
+  typeof id === "number" && !getElementById(id) && isStaleElementId(id)
+    ? toolFailure(action, "stale_id", `[${id}] kimlikli öğe artık sayfada değil; güncel kimlikler için getPageContext çağırın.`)
+    : null;
+
+const executeDirectionalScroll = async (call: ScrollToolCall): Promise<ToolOutcome> => {
+  const direction = call.direction ?? "down";
+  const containerId = call.container ?? call.id;
+  const stale = staleIdFailure("scroll", containerId);
+  if (stale) return stale;
+  const anchor =
+    (typeof containerId === "number" ? getElementById(containerId) : null) ??
+    (call.selector ? findElementBySelector(call.selector) : null);
+
+  if ((typeof containerId === "number" || call.selector) && !isInstanceOf(anchor, HTMLElement)) {
+    return toolFailure("scroll", "target_not_found", "Kaydırılacak alan bulunamadı.");
+  }
+
+  const region = isInstanceOf(anchor, HTMLElement) ? resolveScrollRegion(anchor) : null;
+  const currentTop = region ? region.scrollTop : window.scrollY;
+  const viewportHeight = region ? region.clientHeight : window.innerHeight;
+  const maxScrollTop = region
+    ? region.scrollHeight - region.clientHeight
+    : Math.max(document.body.scrollHeight, document.documentElement.scrollHeight) - viewportHeight;
+  const targetTop = computeDirectionalScrollTop(
+    currentTop, viewportHeight, maxScrollTop, direction, call.amount,
+  );
+
+  const target = region ? describeTarget(region, call.container ?? call.id) : undefined;
+  if (Math.abs(targetTop - currentTop) < 1) {
+    const edge = direction === "up" || direction === "top" ? "en üstte" : "en altta";
+    return toolSuccess("scroll", {
+      target,
+      message: `Alan zaten ${edge}.`,
+      scroll_top: Math.round(currentTop),
+      scroll_max: Math.max(0, Math.round(maxScrollTop)),
+    });
+  }
+
+  await animateElementScrollTo(region, targetTop, SCROLL_DURATION_MS);
+  // Virtualized lists render new rows after scrolling.
+  const settle = await waitForDomSettle({ timeoutMs: CLICK_SETTLE_TIMEOUT_MS });
+  invalidateCurrentPageContext();
+
+  return toolSuccess("scroll", {
+    target,
+    scroll_top: Math.round(region ? region.scrollTop : window.scrollY),
+    scroll_max: Math.max(0, Math.round(maxScrollTop)),
+    ...settleFields(settle),
+  });
+};
+
+const executeScroll = async (call: ScrollToolCall): Promise<ToolOutcome> => {
+  if (call.direction) return executeDirectionalScroll(call);
+  const stale = staleIdFailure("scroll", call.id);
+  if (stale) return stale;
+
   const selected =
     (typeof call.id === "number" ? getElementById(call.id) : null) ??
     (call.selector ? findElementBySelector(call.selector) : null);
 
-  if (!(selected instanceof HTMLElement)) {
+  if (!isInstanceOf(selected, HTMLElement)) {
     console.warn(`AuticBot scroll: target not found (id=${call.id}, selector=${call.selector})`);
-    return;
+    return toolFailure("scroll", "target_not_found", "Kaydırılacak öğe bulunamadı.");
   }
 
   await slowScrollElementIntoViewWithMode(selected, true);
   const center = getElementCenter(selected);
   await moveCursor(center.x, center.y);
+  return toolSuccess("scroll", { target: describeTarget(selected, call.id) });
+};
+
+const hasExplicitTarget = (call: InteractToolCall): boolean =>
+  typeof call.id === "number" ||
+  Boolean(call.selector) ||
+  (typeof call.x === "number" && typeof call.y === "number");
+
+/** Focused page element; focus in Bulut's own UI (the chat input) does not count. */
+const getFocusedPageElement = (): Element | null => {
+  const active = getDeepActiveElement();
+  if (!active || active === document.body || isBulutHost(active)) return null;
+  return active;
+};
+
+const describeFocused = (): string | undefined => {
+  const active = getFocusedPageElement();
+  return active ? describeTarget(active) : undefined;
+};
+
+const executePress = async (call: InteractToolCall): Promise<ToolOutcome> => {
+  const combo = parseKeyCombo(call.key ?? call.text ?? "", call.modifiers);
+  if (!combo) return toolFailure("press", "invalid_key", "Basılacak tuş belirtilmedi.");
+  const key = formatKeyCombo(combo);
+
+  let element: Element = getFocusedPageElement() ?? document.body;
+  if (hasExplicitTarget(call)) {
+    const target = resolveTarget(call);
+    if (!target?.element) {
+      return toolFailure("press", "target_not_found", "Hedef öğe bulunamadı.", { key });
+    }
+    element = target.element;
+    await moveCursor(target.x, target.y);
+    target.element.focus();
+  }
+
+  const before = captureElementSnapshot(element);
+  const prevented = dispatchKeyCombo(element, combo);
+  if (!prevented) performDefaultKeyAction(element, combo);
+  const settle = await waitForDomSettle({ timeoutMs: CLICK_SETTLE_TIMEOUT_MS });
+
+  invalidateCurrentPageContext();
+  return toolSuccess("press", {
+    key,
+    target: describeTarget(element, call.id),
+    focused: describeFocused(),
+    changes: describeStateChanges(before, captureElementSnapshot(element)),
+    ...settleFields(settle),
+  });
 };
 
-const executeInteract = async (call: InteractToolCall) => {
+const executeHover = async (call: InteractToolCall): Promise<ToolOutcome> => {
   const target = resolveTarget(call);
-  if (!target) return;
+  if (!target?.element) {
+    return toolFailure("hover", "target_not_found", "Hedef öğe bulunamadı.");
+  }
+
+  const element = target.element;
+  if (!target.fromPoint) {
+    await slowScrollElementIntoView(element);
+    const center = getElementCenter(element);
+    target.x = center.x;
+    target.y = center.y;
+  }
+  await moveCursor(target.x, target.y);
 
-  if (call.action === "click" && target.element) {
+  const before = captureScannedElements();
+  hoverElement(element, target.x, target.y);
+  const settle = await waitForDomSettle({ timeoutMs: CLICK_SETTLE_TIMEOUT_MS });
+
+  invalidateCurrentPageContext();
+  const context = getPageContext(true);
+  return toolSuccess("hover", {
+    target: describeTarget(element, call.id),
+    hit: target.fromPoint ? describeTarget(element) : undefined,
+    revealed: listRevealedInteractables(before, context),
+    ...settleFields(settle),
+  });
+};
+
+const executeInteract = async (call: InteractToolCall): Promise<ToolOutcome> => {
+  const stale = staleIdFailure(call.action, call.id);
+  if (stale) return stale;
+  if (call.action === "press") return executePress(call);
+  if (call.action === "hover") return executeHover(call);
+
+  const target = resolveTarget(call);
+  if (!target) {
+    return toolFailure(call.action, "target_not_found", "Hedef öğe bulunamadı.");
+  }
+
+  const centersTarget = [
+    "click", "doubleClick", "contextClick", "longPress", "select", "setValue", "check", "uncheck",
+  ].includes(call.action);
+  if (centersTarget && target.element && !target.fromPoint) {
     await slowScrollElementIntoView(target.element);
     const center = getElementCenter(target.element);
     target.x = center.x;
@@ -204,31 +474,127 @@ const executeInteract = async (call: InteractToolCall) => {
 
   await moveCursor(target.x, target.y);
 
-  if (call.action === "move") return;
+  const hit = target.fromPoint && target.element ? describeTarget(target.element) : undefined;
+  if (call.action === "move") return toolSuccess("move", { hit });
 
   if (!target.element) {
     console.warn("AuticBot interact: target element not available for action.", call.action);
-    return;
+    return toolFailure(call.action, "target_not_found", "Koordinatlarda etkileşilebilir öğe yok.");
   }
 
-  if (call.action === "click") {
-    dispatchMouseEvent(target.element, "pointerdown", target.x, target.y);
-    dispatchMouseEvent(target.element, "mousedown", target.x, target.y);
-    dispatchMouseEvent(target.element, "pointerup", target.x, target.y);
-    dispatchMouseEvent(target.element, "mouseup", target.x, target.y);
-    target.element.click();
-    invalidateCurrentPageContext();
-    return;
+  const element = target.element;
+  const descriptor = describeTarget(element, call.id);
+
+  if (isElementDisabled(element)) {
+    return toolFailure(call.action, "disabled", "Öğe devre dışı.", { target: descriptor });
   }
 
-  if (call.action === "type") {
-    typeIntoElement(target.element, call.text ?? "");
+  const before = captureElementSnapshot(element);
+  let settle: DomSettleResult | undefined;
+  let selected: string | undefined;
+  let value: string | undefined;
+  let message: string | undefined;
+  let revealed: string[] | undefined;
+  let announcements: string[] | undefined;
+
+  if (call.action === "click") {
+    dispatchClick(element, target.x, target.y);
+    settle = await waitForDomSettle({ timeoutMs: CLICK_SETTLE_TIMEOUT_MS });
+  } else if (
+    call.action === "doubleClick" ||
+    call.action === "contextClick" ||
+    call.action === "longPress"
+  ) {
+    // These usually open menus or editors; report what appeared.
+    const scanned = captureScannedElements();
+    if (call.action === "doubleClick") dispatchDoubleClick(element, target.x, target.y);
+    else if (call.action === "contextClick") dispatchContextClick(element, target.x, target.y);
+    else await dispatchLongPress(element, target.x, target.y);
+    settle = await waitForDomSettle({ timeoutMs: CLICK_SETTLE_TIMEOUT_MS });
     invalidateCurrentPageContext();
-    return;
+    revealed = listRevealedInteractables(scanned, getPageContext(true));
+  } else if (call.action === "type") {
+    const attempt = await typeIntoElement(element, call.text ?? "", call);
+    if (!attempt.ok) {
+      const message = attempt.reason === "text_not_found"
+        ? "İmlecin yerleştirileceği metin bulunamadı."
+        : "Öğeye metin yazılamıyor.";
+      return toolFailure("type", attempt.reason, message, { target: descriptor });
+    }
+  } else if (call.action === "select") {
+    const attempt = await selectOption(element, {
+      value: call.value,
+      label: call.label ?? call.text,
+      index: call.index,
+    });
+    if (!attempt.ok) {
+      const message = attempt.reason === "not_selectable"
+        ? "Öğe bir seçim listesi değil."
+        : "İstenen seçenek bulunamadı.";
+      return toolFailure("select", attempt.reason, message, { target: descriptor });
+    }
+    selected = attempt.selected;
+  } else if (call.action === "setValue") {
+    const attempt = await setElementValue(element, call.value ?? "");
+    if (!attempt.ok) {
+      const message = attempt.reason === "invalid_value"
+        ? "Geçerli bir sayı değil."
+        : attempt.reason === "ambiguous_value"
+          ? "Sayı belirsiz: ayırıcının ondalık mı binlik mi olduğu anlaşılmıyor. Değeri ayırıcısız (ör. 1234) veya ondalık kısmıyla (ör. 1,5) yaz."
+          : attempt.reason === "not_adjustable"
+          ? "Öğe bir kaydırıcı veya sayı alanı değil."
+          : "Kaydırıcı istenen değere getirilemedi.";
+      return toolFailure("setValue", attempt.reason, message, { target: descriptor, value: attempt.value });
+    }
+    value = attempt.value;
+  } else if (call.action === "check" || call.action === "uncheck") {
+    const checked = call.action === "check";
+    const attempt = await setCheckedState(element, checked, target.x, target.y);
+    settle = attempt.settle;
+    if (!attempt.ok) {
+      const failureMessage = attempt.reason === "not_checkable"
+        ? "Öğe bir onay kutusu, radyo düğmesi veya anahtar değil."
+        : attempt.reason === "disabled"
+          ? "Onay kutusu devre dışı."
+          : attempt.reason === "radio_uncheck"
+            ? "Radyo düğmesinin işareti kaldırılamaz; başka bir seçeneği işaretleyin."
+            : "Tıklamaya rağmen işaret durumu değişmedi.";
+      return toolFailure(call.action, attempt.reason, failureMessage, {
+        target: descriptor,
+        ...settleFields(settle),
+      });
+    }
+    if (!attempt.changed) message = checked ? "Zaten işaretli." : "Zaten işaretsiz.";
+  } else {
+    const feedback = await submitElement(element);
+    if (!feedback) {
+      return toolFailure("submit", "no_form", "Öğe bir forma bağlı değil.", { target: descriptor });
+    }
+    settle = feedback.settle;
+    announcements = feedback.announcements.length > 0 ? feedback.announcements : undefined;
+    if (feedback.validation.length > 0) {
+      invalidateCurrentPageContext();
+      return toolFailure("submit", "validation_failed", "Form gönderilmedi; düzeltilmesi gereken alanlar validation içinde.", {
+        target: descriptor,
+        validation: feedback.validation,
+        announcements,
+        ...settleFields(settle),
+      });
+    }
   }
 
-  submitElement(target.element);
   invalidateCurrentPageContext();
+  return toolSuccess(call.action, {
+    target: descriptor,
+    hit,
+    selected,
+    value,
+    message,
+    revealed,
+    announcements,
+    changes: describeStateChanges(before, captureElementSnapshot(element)),
+    ...settleFields(settle),
+  });
 };
 
 const isSamePageNavigation = (targetUrl: string): boolean => {
@@ -256,13 +622,13 @@ const findMatchingLinkForTarget = (targetUrl: string): HTMLElement | null => {
 
   // 1. Exact href match
   for (const el of allLinks) {
-    if (el instanceof HTMLAnchorElement && el.href === parsedTarget?.href) return el;
+    if (isInstanceOf(el, HTMLAnchorElement) && el.href === parsedTarget?.href) return el;
   }
 
   if (parsedTarget) {
     // 2. pathname + search + hash
     for (const el of allLinks) {
-      if (!(el instanceof HTMLAnchorElement)) continue;
+      if (!isInstanceOf(el, HTMLAnchorElement)) continue;
       try {
         const elUrl = new URL(el.href, window.location.href);
         if (elUrl.pathname === parsedTarget.pathname && elUrl.search === parsedTarget.search && elUrl.hash === parsedTarget.hash) return el;
@@ -271,7 +637,7 @@ const findMatchingLinkForTarget = (targetUrl: string): HTMLElement | null => {
 
     // 3. pathname only
     for (const el of allLinks) {
-      if (!(el instanceof HTMLAnchorElement)) continue;
+      if (!isInstanceOf(el, HTMLAnchorElement)) continue;
       try {
         const elUrl = new URL(el.href, window.location.href);
         if (elUrl.pathname === parsedTarget.pathname) return el;
@@ -321,7 +687,13 @@ const findMatchingLinkForTarget = (targetUrl: string): HTMLElement | null => {
   return null;
 };
 
-const executeNavigate = async (call: NavigateToolCall): Promise<boolean> => {
+interface NavigateExecution {
+  outcome: ToolOutcome;
+  /** True when the navigation unloads the current document. */
+  terminal: boolean;
+}
+
+const executeNavigate = async (call: NavigateToolCall): Promise<NavigateExecution> => {
   try {
     const targetUrl = call.url;
     let resolvedUrl: string;
@@ -342,7 +714,10 @@ const executeNavigate = async (call: NavigateToolCall): Promise<boolean> => {
       matchingElement.dispatchEvent(new MouseEvent("mouseup", { bubbles: true, view: window }));
       matchingElement.click();
 
-      return !isSamePageNavigation(resolvedUrl);
+      return {
+        outcome: toolSuccess("navigate", { target: describeTarget(matchingElement), message: "Bağlantı tıklandı." }),
+        terminal: !isSamePageNavigation(resolvedUrl),
+      };
     }
 
     console.log("AuticBot navigate: no matching element found, using direct navigation", resolvedUrl);
@@ -352,7 +727,7 @@ const executeNavigate = async (call: NavigateToolCall): Promise<boolean> => {
       const parsed = new URL(resolvedUrl);
       if (parsed.origin === window.location.origin && parsed.pathname === window.location.pathname && parsed.hash) {
         window.location.hash = parsed.hash;
-        return false;
+        return { outcome: toolSuccess("navigate", { message: "Sayfa içi bağlantıya gidildi." }), terminal: false };
       }
     } catch { /* continue */ }
 
@@ -363,17 +738,306 @@ const executeNavigate = async (call: NavigateToolCall): Promise<boolean> => {
         const newPath = parsed.pathname + parsed.search + parsed.hash;
         window.history.pushState({}, "", newPath);
         window.dispatchEvent(new PopStateEvent("popstate", { state: {} }));
-        return false;
+        return { outcome: toolSuccess("navigate", { message: "History API ile gidildi." }), terminal: false };
       }
     } catch { /* continue */ }
 
     // Cross-origin: full page navigation
     window.location.href = resolvedUrl;
-    return true;
+    return { outcome: toolSuccess("navigate", { message: "Tam sayfa yüklemesi başlatıldı." }), terminal: true };
   } catch (error) {
     console.warn("AuticBot navigate: error", call.url, error);
-    return false;
+    const msg = error instanceof Error ? error.message : String(error);
+    return { outcome: toolFailure("navigate", "navigation_failed", msg), terminal: false };
+  }
+};
+
+const WAIT_CONDITION_LABELS: Record<WaitForToolCall["condition"], string> = {
+  visible: "Öğe görünür oldu.",
+  hidden: "Öğe gizlendi.",
+  text: "Metin sayfada göründü.",
+  url: "Adres beklenen değerle eşleşti.",
+  attribute: "Öznitelik beklenen değere ulaştı.",
+};
+
+const executeWaitFor = async (call: WaitForToolCall): Promise<ToolOutcome> => {
+  const resolveElement = (): Element | null => {
+    if (typeof call.id === "number") {
+      const mapped = getElementById(call.id);
+      if (mapped?.isConnected) return mapped;
+    }
+    return call.selector ? findElementBySelector(call.selector) : null;
+  };
+
+  const timeoutMs = Math.min(
+    WAIT_FOR_MAX_TIMEOUT_MS,
+    Math.max(0, call.timeout ?? WAIT_FOR_DEFAULT_TIMEOUT_MS),
+  );
+  const { met, elapsedMs } = await waitForCondition(createWaitCheck(call, resolveElement), timeoutMs);
+
+  if (!met) {
+    return toolFailure("waitFor", "wait_timeout", `Koşul ${timeoutMs} ms içinde sağlanmadı.`, {
+      met,
+      elapsed_ms: elapsedMs,
+    });
   }
+
+  invalidateCurrentPageContext();
+  const element = resolveElement();
+  return toolSuccess("waitFor", {
+    met,
+    elapsed_ms: elapsedMs,
+    message: WAIT_CONDITION_LABELS[call.condition],
+    target: element && call.condition !== "hidden" ? describeTarget(element, call.id) : undefined,
+  });
+};
+
+/**
+ * Click load-more controls or scroll the region to its end until no new
+ * elements appear or the iteration cap is hit. Full-page pagination links
+ * are reported, not followed, so the agent decides whether to navigate.
+ * Controls are only looked for inside `container`: page-wide, "show more"
+ * also matches review, FAQ and footer toggles, so without one the page is
+ * only scrolled.
+ */
+const executeLoadMore = async (call: LoadMoreToolCall): Promise<ToolOutcome> => {
+  const anchor = typeof call.container === "number" ? getElementById(call.container) : undefined;
+  if (typeof call.container === "number" && !isInstanceOf(anchor, HTMLElement)) {
+    return staleIdFailure("loadMore", call.container) ??
+      toolFailure("loadMore", "target_not_found", "Liste alanı bulunamadı.");
+  }
+
+  const container = isInstanceOf(anchor, HTMLElement) ? anchor : null;
+  const region = container ? resolveScrollRegion(container) : null;
+  const scope = region ?? container ?? document.body;
+  const maxIterations = clamp(
+    Math.floor(call.maxIterations ?? LOAD_MORE_DEFAULT_ITERATIONS), 1, LOAD_MORE_MAX_ITERATIONS,
+  );
+
+  const scanned = captureScannedElements();
+  const recorder = recordAddedContent(scope);
+  let iterations = 0;
+  let exhausted = false;
+  let replaced = false;
+  let nextPageUrl: string | undefined;
+  let newItems: string[];
+
+  try {
+    while (iterations < maxIterations) {
+      const control = container ? findLoadMoreControl(container) : null;
+      if (control?.pageUrl) nextPageUrl = control.pageUrl;
+
+      let countBefore: number;
+      let checkpoint: number;
+      if (control && !control.pageUrl) {
+        await slowScrollElementIntoView(control.element);
+        const center = getElementCenter(control.element);
+        await moveCursor(center.x, center.y);
+        countBefore = countElements(scope);
+        checkpoint = recorder.checkpoint();
+        dispatchClick(control.element, center.x, center.y);
+      } else {
+        countBefore = countElements(scope);
+        checkpoint = recorder.checkpoint();
+        const maxScrollTop = region
+          ? region.scrollHeight - region.clientHeight
+          : Math.max(document.body.scrollHeight, document.documentElement.scrollHeight) - window.innerHeight;
+        await animateElementScrollTo(region, Math.max(0, maxScrollTop), SCROLL_DURATION_MS);
+      }
+
+      const { met } = await waitForCondition(
+        () => countElements(scope) > countBefore || recorder.replacedSince(checkpoint),
+        LOAD_MORE_WAIT_MS,
+      );
+      if (!met) {
+        exhausted = true;
+        break;
+      }
+      iterations += 1;
+      await waitForDomSettle({ timeoutMs: CLICK_SETTLE_TIMEOUT_MS });
+      // Swapped-in pages are read one at a time; clicking on would skip them.
+      if (countElements(scope) <= countBefore && recorder.replacedSince(checkpoint)) {
+        replaced = true;
+        break;
+      }
+    }
+  } finally {
+    newItems = recorder.snippets();
+    recorder.stop();
+  }
+
+  invalidateCurrentPageContext();
+  const revealed = listRevealedInteractables(scanned, getPageContext(true));
+
+  if (iterations === 0 && !nextPageUrl) {
+    return container
+      ? toolFailure("loadMore", "no_more_content", "Yeni içerik yüklenmedi.", { iterations })
+      : toolFailure(
+        "loadMore",
+        "no_control",
+        "Sayfa kaydırılınca yeni içerik gelmedi; bir \"daha fazla\" düğmesi için listeyi container ile belirtin.",
+        { iterations },
+      );
+  }
+
+  const message = nextPageUrl
+    ? "Sonraki sayfa tam sayfa yüklemesi gerektiriyor; navigate ile gidilebilir."
+    : replaced
+      ? "Liste yeni sayfanın öğeleriyle değiştirildi; sonraki sayfa için tekrar çağırın."
+      : exhausted
+        ? "Yüklenecek başka içerik kalmadı."
+        : "Yineleme sınırına ulaşıldı; daha fazla içerik olabilir.";
+
+  return toolSuccess("loadMore", {
+    target: container ? describeTarget(container, call.container) : undefined,
+    iterations,
+    new_items: newItems,
+    revealed,
+    next_page_url: nextPageUrl,
+    message,
+  });
+};
+
+const executeFind = (call: FindToolCall): ToolOutcome => {
+  // Refresh the live map first so registered match IDs extend the current scan.
+  getPageContext(true);
+  const limit = clamp(Math.floor(call.limit ?? MAX_FIND_RESULTS), 1, MAX_FIND_RESULTS);
+  const matches = findInPage(call.query, limit);
+
+  if (matches.length === 0) {
+    return toolFailure("find", "no_match", `"${call.query}" sayfada bulunamadı.`, { matches: [] });
+  }
+  return toolSuccess("find", {
+    message: `${matches.length} eşleşme bulundu.`,
+    matches: matches.map(formatFindMatch),
+  });
+};
+
+const executeReadElement = (call: ReadElementToolCall): ToolOutcome => {
+  let element: Element | null = null;
+  if (typeof call.id === "number") {
+    element = getElementById(call.id) ?? null;
+    if (!element?.isConnected) {
+      return staleIdFailure("readElement", call.id) ??
+        toolFailure("readElement", "target_not_found", "Okunacak öğe bulunamadı.");
+    }
+  } else if (call.heading) {
+    element = findHeadingByText(call.heading);
+    if (!element) {
+      return toolFailure("readElement", "target_not_found", `"${call.heading}" başlığı bulunamadı.`);
+    }
+  }
+
+  const root = element ?? getMainContentRoot();
+  const text = isHeadingElement(root) ? extractHeadingSection(root) : extractStructuredText(root);
+  const pages = chunkText(text);
+  const totalPages = Math.max(1, pages.length);
+  const page = Math.floor(call.page ?? 1);
+  const target = element ? describeTarget(element, call.id) : undefined;
+
+  if (page < 1 || page > totalPages) {
+    return toolFailure("readElement", "page_out_of_range", `Sayfa ${page} yok; toplam ${totalPages} sayfa.`, {
+      target,
+      total_pages: totalPages,
+    });
+  }
+
+  return toolSuccess("readElement", {
+    target,
+    content: pages[page - 1] ?? "",
+    page,
+    total_pages: totalPages,
+    message: page < totalPages ? `Devamı için page=${page + 1} ile tekrar okuyun.` : undefined,
+  });
+};
+
+const executeReadTable = (call: ReadTableToolCall): ToolOutcome => {
+  const element = getElementById(call.id);
+  const table = element?.isConnected ? findEnclosingTable(element) : null;
+  if (!table) {
+    return staleIdFailure("readTable", call.id) ??
+      toolFailure("readTable", "target_not_found", "Okunacak tablo bulunamadı.");
+  }
+
+  const data = readTableElement(table);
+  const totalPages = Math.max(1, Math.ceil(data.rows.length / TABLE_ROWS_PER_PAGE));
+  const page = Math.floor(call.page ?? 1);
+  const target = describeTarget(table, data.id);
+
+  if (page < 1 || page > totalPages) {
+    return toolFailure("readTable", "page_out_of_range", `Sayfa ${page} yok; toplam ${totalPages} sayfa.`, {
+      target,
+      total_pages: totalPages,
+    });
+  }
+
+  const start = (page - 1) * TABLE_ROWS_PER_PAGE;
+  return toolSuccess("readTable", {
+    target,
+    columns: data.headers,
+    rows: data.rows.slice(start, start + TABLE_ROWS_PER_PAGE).map((row) => formatTableRow(data.headers, row)),
+    total_rows: data.rows.length,
+    page,
+    total_pages: totalPages,
+    message: page < totalPages ? `Devamı için page=${page + 1} ile tekrar okuyun.` : undefined,
+  });
+};
+
+const executeFillForm = async (call: FillFormToolCall): Promise<ToolOutcome> => {
+  const element = getElementById(call.id);
+  if (!element?.isConnected) {
+    return staleIdFailure("fillForm", call.id) ??
+      toolFailure("fillForm", "target_not_found", "Doldurulacak form bulunamadı.");
+  }
+  // Div-based forms are filled within the given container.
+  const scope = isInstanceOf(element, HTMLFormElement) ? element : element.closest("form") ?? element;
+  const target = describeTarget(scope, registerElement(scope));
+
+  const keys = Object.keys(call.values);
+  const matched = matchFormFields(keys, collectFormFields(scope));
+  const reveal = async (field: HTMLElement) => {
+    await slowScrollElementIntoView(field);
+    const center = getElementCenter(field);
+    await moveCursor(center.x, center.y);
+    return center;
+  };
+
+  const fields: string[] = [];
+  const unmatched: string[] = [];
+  let filled = 0;
+  for (const key of keys) {
+    const field = matched.get(key);
+    if (!field) {
+      unmatched.push(key);
+      fields.push(`- "${key}": no matching field`);
+      continue;
+    }
+    const attempt = await fillFormField(field, call.values[key], reveal);
+    const descriptor = describeTarget(attempt.element, registerElement(attempt.element));
+    if (attempt.ok) {
+      filled += 1;
+      fields.push(`- "${key}" → ${descriptor}: filled "${attempt.value}"`);
+    } else {
+      fields.push(`- "${key}" → ${descriptor}: failed (${attempt.reason})`);
+    }
+  }
+
+  invalidateCurrentPageContext();
+  const settle = filled > 0 ? await waitForDomSettle({ timeoutMs: CLICK_SETTLE_TIMEOUT_MS }) : undefined;
+  const details = { target, fields, unmatched: unmatched.length > 0 ? unmatched : undefined, ...settleFields(settle) };
+
+  if (filled === keys.length) {
+    return toolSuccess("fillForm", { ...details, message: `${filled} alan dolduruldu.` });
+  }
+  if (filled === 0 && unmatched.length === keys.length) {
+    return toolFailure("fillForm", "no_match", "İstenen alanların hiçbiri formda bulunamadı.", details);
+  }
+  return toolFailure(
+    "fillForm",
+    "partial_fill",
+    `${keys.length} alandan ${filled} tanesi dolduruldu; ayrıntılar fields içinde.`,
+    details,
+  );
 };
 
 const executeGetPageContext = async () => {
@@ -383,6 +1047,36 @@ const executeGetPageContext = async () => {
   );
 };
 
+const executeCustomTool = async (
+  call: ToolCallWithId,
+): Promise<string | null> => {
+  const { tool, call_id: _callId, ...args } = call as ToolCallWithId & Record<string, unknown>;
+  const definition = getRegisteredTool(tool);
+  if (!definition) return null;
+
+  const output = await definition.handler(args);
+  if (typeof output === "string") return output;
+  if (output === undefined) return "Araç tamamlandı.";
+  return JSON.stringify(output);
+};
+
+/**
+ * Forward a call with frame-scoped IDs to its frame. The frame answers with
+ * its own IDs; they are scoped again before the result reaches the agent.
+ */
+const executeFrameCall = async (frame: number, call: ToolCallWithId): Promise<string> => {
+  const response = await executeInFrame(frame, call);
+  if (response.status === "ok") return scopeElementReferences(response.result, frame);
+  if (response.status === "reloaded") {
+    return serializeToolOutcome(toolSuccess(call.tool, {
+      message: `f${frame} çerçevesi yeni bir sayfa yükledi; güncel kimlikler için getPageContext çağırın.`,
+    }));
+  }
+  return serializeToolOutcome(response.status === "timeout"
+    ? toolFailure(call.tool, "frame_timeout", `f${frame} çerçevesi zamanında yanıt vermedi.`)
+    : toolFailure(call.tool, "frame_unavailable", `f${frame} çerçevesine ulaşılamıyor; güncel kimlikler için getPageContext çağırın.`));
+};
+
 // ── Public API ──────────────────────────────────────────────────────
 
 export const executeToolCalls = async (toolCalls: AgentToolCall[]) => {
@@ -390,13 +1084,46 @@ export const executeToolCalls = async (toolCalls: AgentToolCall[]) => {
     if (toolCall.tool === "interact") { await executeInteract(toolCall); continue; }
     if (toolCall.tool === "scroll") { await executeScroll(toolCall); continue; }
     if (toolCall.tool === "getPageContext") { await executeGetPageContext(); continue; }
+    if (toolCall.tool === "waitFor") { await executeWaitFor(toolCall); continue; }
+    if (toolCall.tool === "loadMore") { await executeLoadMore(toolCall); continue; }
+    if (toolCall.tool === "find") { executeFind(toolCall); continue; }
+    if (toolCall.tool === "readElement") { executeReadElement(toolCall); continue; }
+    if (toolCall.tool === "readTable") { executeReadTable(toolCall); continue; }
+    if (toolCall.tool === "fillForm") { await executeFillForm(toolCall); continue; }
     if (toolCall.tool === "navigate") {
-      const terminalNavigation = await executeNavigate(toolCall);
-      if (terminalNavigation) break;
+      const { terminal } = await executeNavigate(toolCall);
+      if (terminal) break;
     }
   }
 };
 
+type BuiltInToolExecutor<T extends BuiltInToolName> = (call: Extract<ToolCallWithId, { tool: T }>) => Promise<string>;
+
+/** Result string of each built-in tool, keyed by `BUILT_IN_TOOL_NAMES`. */
+const BUILT_IN_TOOL_EXECUTORS: { [T in BuiltInToolName]: BuiltInToolExecutor<T> } = {
+  interact: async (call) => serializeToolOutcome(await executeInteract(call)),
+  scroll: async (call) => serializeToolOutcome(await executeScroll(call)),
+  waitFor: async (call) => serializeToolOutcome(await executeWaitFor(call)),
+  find: async (call) => serializeToolOutcome(executeFind(call)),
+  readElement: async (call) => serializeToolOutcome(executeReadElement(call)),
+  readTable: async (call) => serializeToolOutcome(executeReadTable(call)),
+  fillForm: async (call) => serializeToolOutcome(await executeFillForm(call)),
+  loadMore: async (call) => serializeToolOutcome(await executeLoadMore(call)),
+  getPageContext: async () => getPageContext(true).summary,
+  navigate: async (call) => {
+    const { outcome } = await executeNavigate(call);
+    if (outcome.status === "failed") return serializeToolOutcome(outcome);
+    const settle = await waitForDomSettle();
+    const context = getPageContext();
+    return serializeToolOutcome({
+      ...outcome,
+      ...settleFields(settle),
+      url: window.location.href,
+      page_context: context.summary,
+    });
+  },
+};
+
 /**
  * Execute a single tool call and return a result string.
  * Used by the agent loop to feed results back into the LLM.
@@ -404,28 +1131,15 @@ export const executeToolCalls = async (toolCalls: AgentToolCall[]) => {
 export const executeSingleToolCall = async (call: ToolCallWithId): Promise<ToolCallResult> => {
   const callId = call.call_id;
   try {
-    if (call.tool === "interact") {
-      await executeInteract(call);
-      return { call_id: callId, result: `Etkileşim başarılı: ${call.action}` };
-    }
-    if (call.tool === "scroll") {
-      await executeScroll(call);
-      return { call_id: callId, result: "Öğeye kaydırma başarılı." };
-    }
-    if (call.tool === "getPageContext") {
-      const context = getPageContext(true);
-      return { call_id: callId, result: context.summary };
-    }
-    if (call.tool === "navigate") {
-      await executeNavigate(call);
-      await new Promise((resolve) => setTimeout(resolve, 1500));
-      const context = getPageContext();
-      return {
-        call_id: callId,
-        result: `Navigasyon tamamlandı. Şu anki sayfa: ${window.location.href}\nSayfa bağlamı: ${context.summary}`,
-      };
-    }
-    return { call_id: callId, result: "Bilinmeyen araç." };
+    const frameRoute = localizeFrameCall(call);
+    if (frameRoute) return { call_id: callId, result: await executeFrameCall(frameRoute.frame, frameRoute.call) };
+
+    const customResult = await executeCustomTool(call);
+    if (customResult !== null) return { call_id: callId, result: customResult };
+
+    if (!isBuiltInToolName(call.tool)) return { call_id: callId, result: "Bilinmeyen araç." };
+    const execute = BUILT_IN_TOOL_EXECUTORS[call.tool] as (call: ToolCallWithId) => Promise<string>;
+    return { call_id: callId, result: await execute(call) };
   } catch (error) {
     const msg = error instanceof Error ? error.message : String(error);
     console.warn(`[Autic] Tool execution error: ${call.tool}`, error);
@@ -0,0 +1,405 @@
+import { normalizeForSearch, scoreTextMatch, isElementDisabled } from "../context";
+import { getPrimaryRole, isVisible, normalizeWhitespace } from "../context/helpers";
+import { isInstanceOf } from "../context/domTraversal";
+import type { FillFormValue, ToolFailureReason } from "./types";
+import { matchOptionIndex, selectOption } from "./select";
+import { typeIntoElement } from "./typing";
+import { setCheckedState } from "./toggle";
+import { setElementValue } from "./slider";
+
+// ── Field matching (pure) ───────────────────────────────────────────
+
+export type FieldLabelSource = "label" | "labelledby" | "aria-label" | "legend" | "placeholder" | "name";
+
+export interface FieldLabel {
+  text: string;
+  source: FieldLabelSource;
+}
+
+export interface FieldCandidate<T> {
+  ref: T;
+  labels: FieldLabel[];
+}
+
+/** Visible labels beat authoring hints; a fieldset legend only names the group. */
+const LABEL_SOURCE_WEIGHTS: Record<FieldLabelSource, number> = {
+  label: 1,
+  labelledby: 1,
+  "aria-label": 1,
+  placeholder: 0.9,
+  name: 0.9,
+  legend: 0.7,
+};
+
+const MIN_FIELD_MATCH_SCORE = 0.5;
+
+/** `billing_address[zipCode]` → `billing address zip code`, searchable like label text. */
+export const normalizeFieldKey = (text: string): string =>
+  normalizeForSearch(
+    text
+      .replace(/([a-zçğıöşü])([A-ZÇĞİÖŞÜ])/g, "$1 $2")
+      .replace(/[_\-.[\]:]+/g, " "),
+  ).replace(/\s+/g, " ").trim();
+
+export const scoreFieldLabels = (key: string, labels: FieldLabel[]): number => {
+  const wanted = normalizeFieldKey(key);
+  if (!wanted) return 0;
+  let best = 0;
+  for (const label of labels) {
+    const text = normalizeFieldKey(label.text);
+    if (!text) continue;
+    // An exact label outranks a label that merely contains the key.
+    const base = text === wanted ? 1.1 : scoreTextMatch(wanted, text);
+    best = Math.max(best, base * LABEL_SOURCE_WEIGHTS[label.source]);
+  }
+  return best;
+};
+
+/**
+ * Pair each key with its best-scoring field, strongest pairs first, so two
+ * keys never claim the same field. Keys without a good enough match map to null.
+ */
+export const matchFormFields = <T>(keys: string[], candidates: FieldCandidate<T>[]): Map<string, T | null> => {
+  const pairs: { key: string; candidate: number; score: number }[] = [];
+  keys.forEach((key) => {
+    candidates.forEach((candidate, index) => {
+      const score = scoreFieldLabels(key, candidate.labels);
+      if (score >= MIN_FIELD_MATCH_SCORE) pairs.push({ key, candidate: index, score });
+    });
+  });
+  pairs.sort((a, b) => b.score - a.score);
+
+  const matched = new Map<string, T | null>(keys.map((key) => [key, null]));
+  const used = new Set<number>();
+  for (const pair of pairs) {
+    if (matched.get(pair.key) !== null || used.has(pair.candidate)) continue;
+    matched.set(pair.key, candidates[pair.candidate].ref);
+    used.add(pair.candidate);
+  }
+  return matched;
+};
+
+// ── Value coercion (pure) ───────────────────────────────────────────
+
+const TRUE_WORDS = new Set(["true", "yes", "on", "1", "evet", "açık", "işaretli", "checked"]);
+const FALSE_WORDS = new Set(["false", "no", "off", "0", "hayır", "kapalı", "işaretsiz", "unchecked"]);
+
+export const parseBooleanValue = (value: FillFormValue): boolean | undefined => {
+  if (typeof value === "boolean") return value;
+  if (Array.isArray(value)) return undefined;
+  const normalized = String(value).trim().toLocaleLowerCase("tr");
+  if (TRUE_WORDS.has(normalized)) return true;
+  if (FALSE_WORDS.has(normalized)) return false;
+  return undefined;
+};
+
+const pad = (value: string | number): string => String(value).padStart(2, "0");
+
+const isValidDate = (year: number, month: number, day: number): boolean => {
+  const date = new Date(Date.UTC(year, month - 1, day));
+  return date.getUTCFullYear() === year && date.getUTCMonth() === month - 1 && date.getUTCDate() === day;
+};
+
+const parseDatePart = (raw: string): string | null => {
+  const iso = raw.match(/^(\d{4})-(\d{1,2})-(\d{1,2})$/);
+  // Day-first, as written in Turkish: 12.03.2026, 12/03/2026.
+  const local = raw.match(/^(\d{1,2})[./-](\d{1,2})[./-](\d{4})$/);
+  const [year, month, day] = iso
+    ? [Number(iso[1]), Number(iso[2]), Number(iso[3])]
+    : local
+      ? [Number(local[3]), Number(local[2]), Number(local[1])]
+      : [NaN, NaN, NaN];
+  if (!isValidDate(year, month, day)) return null;
+  return `${year}-${pad(month)}-${pad(day)}`;
+};
+
+const parseTimePart = (raw: string): string | null => {
+  const match = raw.match(/^(\d{1,2})[:.](\d{2})(?::(\d{2}))?$/);
+  if (!match) return null;
+  const [hours, minutes] = [Number(match[1]), Number(match[2])];
+  if (hours > 23 || minutes > 59) return null;
+  return `${pad(hours)}:${pad(minutes)}`;
+};
+
+/**
+ * Convert a human date to the wire format a date-like input accepts
+ * (`date`: 2026-03-12, `datetime-local`: 2026-03-12T09:30, `time`: 09:30,
+ * `month`: 2026-03, `week`: 2026-W11). Returns null when the value cannot be read.
+ */
+export const normalizeDateValue = (raw: string, type: string): string | null => {
+  const value = raw.trim();
+  if (type === "time") return parseTimePart(value);
+  if (type === "week") return /^\d{4}-W\d{2}$/i.test(value) ? value.toUpperCase() : null;
+  if (type === "month") {
+    const match = value.match(/^(\d{4})-(\d{1,2})$/) ?? value.match(/^(\d{1,2})[./](\d{4})$/);
+    if (!match) return null;
+    const [year, month] = match[1].length === 4 ? [match[1], match[2]] : [match[2], match[1]];
+    return Number(month) >= 1 && Number(month) <= 12 ? `${year}-${pad(month)}` : null;
+  }
+  if (type === "datetime-local") {
+    const [datePart, timePart = "00:00"] = value.split(/[T ]+/);
+    const date = parseDatePart(datePart);
+    const time = parseTimePart(timePart);
+    return date && time ? `${date}T${time}` : null;
+  }
+  return parseDatePart(value);
+};
+
+// ── DOM fields ──────────────────────────────────────────────────────
+
+export type FormFieldKind = "text" | "date" | "range" | "select" | "checkbox" | "radio" | "checkboxGroup";
+
+export interface FormField {
+  kind: FormFieldKind;
+  /** The control, or every option of a radio / checkbox group. */
+  elements: HTMLElement[];
+}
+
+const DATE_INPUT_TYPES = new Set(["date", "datetime-local", "time", "month", "week"]);
+const SKIPPED_INPUT_TYPES = new Set(["hidden", "submit", "reset", "button", "image", "file"]);
+
+const FIELD_SELECTOR = [
+  "input", "select", "textarea",
+  "[role='combobox']", "[role='listbox']", "[role='checkbox']", "[role='switch']",
+  "[role='radio']", "[role='slider']", "[role='spinbutton']", "[role='textbox']",
+].join(", ");
+
+const textOf = (element: Element): string =>
+  normalizeWhitespace(isInstanceOf(element, HTMLElement) ? element.innerText || element.textContent || "" : element.textContent || "");
+
+const labelledByText = (element: Element): string =>
+  (element.getAttribute("aria-labelledby") || "")
+    .split(/\s+/)
+    .map((id) => element.ownerDocument.getElementById(id))
+    .filter((node): node is HTMLElement => node !== null)
+    .map(textOf)
+    .join(" ");
+
+const ownLabels = (element: HTMLElement): FieldLabel[] => {
+  const labels: FieldLabel[] = [];
+  const push = (text: string, source: FieldLabelSource) => {
+    const cleaned = normalizeWhitespace(text);
+    if (cleaned) labels.push({ text: cleaned, source });
+  };
+
+  if ("labels" in element && element.labels) {
+    for (const label of element.labels as NodeListOf<HTMLLabelElement>) push(textOf(label), "label");
+  }
+  push(labelledByText(element), "labelledby");
+  push(element.getAttribute("aria-label") || "", "aria-label");
+  push(element.getAttribute("placeholder") || "", "placeholder");
+  push(element.getAttribute("name") || "", "name");
+  if (element.id) push(element.id, "name");
+  return labels;
+};
+
+const legendLabel = (element: Element): FieldLabel[] => {
+  const fieldset = element.closest("fieldset");
+  const legend = fieldset?.querySelector(":scope > legend");
+  const group = element.closest("[role='radiogroup'], [role='group']");
+  const texts = [
+    legend ? textOf(legend) : "",
+    group ? group.getAttribute("aria-label") || labelledByText(group) : "",
+  ].filter(Boolean);
+  return texts.map((text) => ({ text, source: "legend" as const }));
+};
+
+const classifyField = (element: HTMLElement): FormFieldKind | null => {
+  if (isInstanceOf(element, HTMLInputElement)) {
+    const type = element.type.toLowerCase();
+    if (SKIPPED_INPUT_TYPES.has(type)) return null;
+    if (type === "checkbox") return "checkbox";
+    if (type === "radio") return "radio";
+    if (type === "range") return "range";
+    if (DATE_INPUT_TYPES.has(type)) return "date";
+    return "text";
+  }
+  if (isInstanceOf(element, HTMLTextAreaElement)) return "text";
+  if (isInstanceOf(element, HTMLSelectElement)) return "select";
+
+  const role = getPrimaryRole(element);
+  if (role === "combobox" || role === "listbox") return "select";
+  if (role === "checkbox" || role === "switch") return "checkbox";
+  if (role === "radio") return "radio";
+  if (role === "slider" || role === "spinbutton") return "range";
+  if (role === "textbox") return "text";
+  return null;
+};
+
+/** Hidden custom checkboxes still count when their label is visible. */
+const isFieldShown = (element: HTMLElement): boolean =>
+  isVisible(element) ||
+  ("labels" in element && Array.from((element.labels as NodeListOf<HTMLLabelElement> | null) ?? []).some(isVisible));
+
+/** Option text of a radio / checkbox inside a group. */
+const getChoiceLabel = (element: HTMLElement): string =>
+  ownLabels(element).find((label) => label.source !== "name")?.text ||
+  textOf(element) ||
+  (isInstanceOf(element, HTMLInputElement) ? element.value : "");
+
+/** What ties choices together: a shared name, else their group container. */
+const groupKey = (element: HTMLElement): string | Element | null =>
+  element.getAttribute("name") || element.closest("[role='radiogroup'], [role='group'], fieldset");
+
+/**
+ * Fillable fields of a form (or form-like container). Radios, and grouped
+ * checkboxes, collapse into one group field named by their legend; grouped
+ * checkboxes stay addressable on their own as well.
+ */
+export const collectFormFields = (scope: Element): FieldCandidate<FormField>[] => {
+  const controls = isInstanceOf(scope, HTMLFormElement)
+    ? [...Array.from(scope.elements), ...Array.from(scope.querySelectorAll(FIELD_SELECTOR))]
+    : Array.from(scope.querySelectorAll(FIELD_SELECTOR));
+
+  const seen = new Set<Element>();
+  const groups = { radio: new Map<string | Element, HTMLElement[]>(), checkbox: new Map<string | Element, HTMLElement[]>() };
+  const candidates: FieldCandidate<FormField>[] = [];
+
+  for (const control of controls) {
+    if (!isInstanceOf(control, HTMLElement) || seen.has(control)) continue;
+    seen.add(control);
+    const kind = classifyField(control);
+    if (!kind || !isFieldShown(control)) continue;
+
+    if (kind === "radio" || kind === "checkbox") {
+      const key = groupKey(control);
+      if (key) {
+        const members = groups[kind].get(key);
+        if (members) members.push(control);
+        else groups[kind].set(key, [control]);
+        continue;
+      }
+    }
+    candidates.push({ ref: { kind, elements: [control] }, labels: [...ownLabels(control), ...legendLabel(control)] });
+  }
+
+  const groupLabels = (members: HTMLElement[]): FieldLabel[] => {
+    const name = members[0].getAttribute("name");
+    return [...legendLabel(members[0]), ...(name ? [{ text: name, source: "name" as const }] : [])];
+  };
+
+  for (const members of groups.radio.values()) {
+    // A lone radio can still be addressed by its own label.
+    const labels = members.length === 1 ? [...ownLabels(members[0]), ...groupLabels(members)] : groupLabels(members);
+    candidates.push({ ref: { kind: "radio", elements: members }, labels });
+  }
+
+  for (const members of groups.checkbox.values()) {
+    if (members.length === 1) {
+      candidates.push({ ref: { kind: "checkbox", elements: members }, labels: [...ownLabels(members[0]), ...legendLabel(members[0])] });
+      continue;
+    }
+    candidates.push({ ref: { kind: "checkboxGroup", elements: members }, labels: groupLabels(members) });
+    for (const member of members) {
+      candidates.push({ ref: { kind: "checkbox", elements: [member] }, labels: ownLabels(member).filter((label) => label.source !== "name") });
+    }
+  }
+
+  return candidates;
+};
+
+// ── Filling ─────────────────────────────────────────────────────────
+
+export type FieldFillAttempt =
+  | { ok: true; element: HTMLElement; value: string }
+  | { ok: false; element: HTMLElement; reason: ToolFailureReason };
+
+/** Scroll the control into view and move the cursor to it; resolves to its centre. */
+export type RevealField = (element: HTMLElement) => Promise<{ x: number; y: number }>;
+
+const valueList = (value: FillFormValue): string[] =>
+  (Array.isArray(value) ? value : [String(value)]).map((item) => item.trim()).filter(Boolean);
+
+const matchChoices = (choices: HTMLElement[], wanted: string[]): HTMLElement[] | null => {
+  const options = choices.map((choice) => ({
+    value: isInstanceOf(choice, HTMLInputElement) ? choice.value : choice.getAttribute("data-value") || "",
+    label: getChoiceLabel(choice),
+  }));
+  const picked: HTMLElement[] = [];
+  for (const item of wanted) {
+    const index = matchOptionIndex(options, { value: item, label: item });
+    if (index < 0) return null;
+    picked.push(choices[index]);
+  }
+  return picked;
+};
+
+const fillChoices = async (
+  field: FormField,
+  value: FillFormValue,
+  reveal: RevealField,
+): Promise<FieldFillAttempt> => {
+  const wanted = valueList(value);
+  const picked = matchChoices(field.elements, wanted);
+  if (!picked || picked.length === 0) return { ok: false, element: field.elements[0], reason: "option_not_found" };
+  if (field.kind === "radio" && picked.length > 1) {
+    return { ok: false, element: field.elements[0], reason: "invalid_value" };
+  }
+
+  // Checkbox groups end with exactly the requested boxes checked.
+  const targets = field.kind === "radio" ? picked : field.elements;
+  for (const element of targets) {
+    const desired = picked.includes(element);
+    if (isElementDisabled(element)) {
+      if (desired) return { ok: false, element, reason: "disabled" };
+      continue;
+    }
+    const { x, y } = await reveal(element);
+    const attempt = await setCheckedState(element, desired, x, y);
+    if (!attempt.ok) return { ok: false, element, reason: attempt.reason };
+  }
+  return { ok: true, element: picked[0], value: picked.map(getChoiceLabel).join(", ") };
+};
+
+/** Fill one matched field with the value the agent asked for. */
+export const fillFormField = async (
+  field: FormField,
+  value: FillFormValue,
+  reveal: RevealField,
+): Promise<FieldFillAttempt> => {
+  if (field.kind === "radio" || field.kind === "checkboxGroup") return fillChoices(field, value, reveal);
+
+  const [element] = field.elements;
+  if (isElementDisabled(element)) return { ok: false, element, reason: "disabled" };
+  const { x, y } = await reveal(element);
+
+  if (field.kind === "checkbox") {
+    const desired = parseBooleanValue(value);
+    if (desired === undefined) return { ok: false, element, reason: "invalid_value" };
+    const attempt = await setCheckedState(element, desired, x, y);
+    return attempt.ok ? { ok: true, element, value: String(desired) } : { ok: false, element, reason: attempt.reason };
+  }
+
+  if (field.kind === "select") {
+    const items = valueList(value);
+    const multiple = isInstanceOf(element, HTMLSelectElement) && element.multiple;
+    if (items.length === 0 || (items.length > 1 && !multiple)) return { ok: false, element, reason: "invalid_value" };
+    if (multiple) {
+      for (const option of (element as HTMLSelectElement).options) option.selected = false;
+    }
+    const selected: string[] = [];
+    for (const item of items) {
+      const attempt = await selectOption(element, { value: item, label: item });
+      if (!attempt.ok) return { ok: false, element, reason: attempt.reason };
+      selected.push(attempt.selected);
+    }
+    return { ok: true, element, value: selected.join(", ") };
+  }
+
+  if (field.kind === "range") {
+    const attempt = await setElementValue(element, valueList(value).join(""));
+    return attempt.ok ? { ok: true, element, value: attempt.value } : { ok: false, element, reason: attempt.reason };
+  }
+
+  if (Array.isArray(value)) return { ok: false, element, reason: "invalid_value" };
+  let text = String(value);
+  if (field.kind === "date" && isInstanceOf(element, HTMLInputElement)) {
+    const normalized = normalizeDateValue(text, element.type.toLowerCase());
+    if (!normalized) return { ok: false, element, reason: "invalid_value" };
+    text = normalized;
+  }
+
+  // Date inputs reject partial values, so they are always set in one step.
+  const attempt = await typeIntoElement(element, text, field.kind === "date" ? { typing: "instant" } : {});
+  return attempt.ok ? { ok: true, element, value: text } : { ok: false, element, reason: attempt.reason };
+};
@@ -10,6 +10,23 @@ export type {
   ToolCallWithId,
   ToolCallResult,
   PendingAgentResume,
+  CustomToolDefinition,
+  CustomToolSchema,
+  ToolOutcome,
+  ToolFailureReason,
+  KeyModifier,
+  TypingMode,
+  CaretPosition,
+  WaitCondition,
+  ScrollDirection,
+  ScrollAmount,
+  WaitForToolCall,
+  LoadMoreToolCall,
+  FindToolCall,
+  ReadElementToolCall,
+  ReadTableToolCall,
+  FillFormToolCall,
+  FillFormValue,
 } from "./types";
 export {
   savePendingAgentResume,
@@ -17,13 +34,33 @@ export {
   clearPendingAgentResume,
 } from "./resume";
 export { parseAgentResponse } from "./parser";
+export {
+  registerTool,
+  unregisterTool,
+  getRegisteredToolSchemas,
+  clearRegisteredTools,
+  BUILT_IN_TOOL_NAMES,
+} from "./registry";
+export type { BuiltInToolName } from "./registry";
+export { serializeToolOutcome, describeStateChanges } from "./results";
+export { isDomSettled, waitForDomSettle } from "./settle";
+export { matchOptionIndex } from "./select";
+export { parseKeyCombo, formatKeyCombo, getKeyCode } from "./keyboard";
+export { resolveTypingOptions, findTextBoundary } from "./typing";
+export { parseLocalizedNumber, snapToStep } from "./slider";
+export { matchesUrlPattern } from "./wait";
+export { classifyLoadMoreLabel } from "./loadMore";
+export { normalizeDateValue, parseBooleanValue, matchFormFields, normalizeFieldKey } from "./forms";
+export { formatValidationIssue, mergeValidationMessages } from "./validation";
 export {
   clamp,
   easeInOutCubic,
   easeInOutSine,
   isRectOutsideViewport,
   computeCenteredScrollTop,
+  computeDirectionalScrollTop,
   animateWindowScrollTo,
+  animateElementScrollTo,
 } from "./animation";
 export { hideAgentCursor } from "./cursor";
 export { executeToolCalls, executeSingleToolCall } from "./executors";
@@ -0,0 +1,351 @@
+import { isInstanceOf, getElementWindow, getFrameDocument, collectDeepElements } from "../context/domTraversal";
+import type { KeyModifier } from "./types";
+
+export interface KeyCombo {
+  key: string;
+  modifiers: KeyModifier[];
+}
+
+const MODIFIER_ALIASES: Record<string, KeyModifier> = {
+  ctrl: "ctrl",
+  control: "ctrl",
+  shift: "shift",
+  alt: "alt",
+  option: "alt",
+  meta: "meta",
+  cmd: "meta",
+  command: "meta",
+  win: "meta",
+};
+
+const MODIFIER_ORDER: KeyModifier[] = ["ctrl", "alt", "shift", "meta"];
+
+const MODIFIER_KEY_NAMES: Record<KeyModifier, string> = {
+  ctrl: "Control",
+  shift: "Shift",
+  alt: "Alt",
+  meta: "Meta",
+};
+
+const KEY_ALIASES: Record<string, string> = {
+  esc: "Escape",
+  escape: "Escape",
+  enter: "Enter",
+  return: "Enter",
+  tab: "Tab",
+  space: " ",
+  spacebar: " ",
+  up: "ArrowUp",
+  down: "ArrowDown",
+  left: "ArrowLeft",
+  right: "ArrowRight",
+  arrowup: "ArrowUp",
+  arrowdown: "ArrowDown",
+  arrowleft: "ArrowLeft",
+  arrowright: "ArrowRight",
+  pageup: "PageUp",
+  pagedown: "PageDown",
+  home: "Home",
+  end: "End",
+  backspace: "Backspace",
+  delete: "Delete",
+  del: "Delete",
+  plus: "+",
+};
+
+/** Legacy `keyCode` values still read by older widget libraries. */
+const LEGACY_KEY_CODES: Record<string, number> = {
+  Backspace: 8,
+  Tab: 9,
+  Enter: 13,
+  Escape: 27,
+  " ": 32,
+  PageUp: 33,
+  PageDown: 34,
+  End: 35,
+  Home: 36,
+  ArrowLeft: 37,
+  ArrowUp: 38,
+  ArrowRight: 39,
+  ArrowDown: 40,
+  Delete: 46,
+};
+
+/**
+ * Parse `"Ctrl+K"`, `"shift+tab"`, `"Escape"` plus optional explicit
+ * modifiers into a normalized combo. Returns null for an empty key.
+ */
+export const parseKeyCombo = (raw: string, extraModifiers: string[] = []): KeyCombo | null => {
+  const trimmed = raw.trim();
+  if (!trimmed) return null;
+
+  // A trailing "+" is the plus key itself ("Ctrl++").
+  const parts = trimmed.endsWith("++")
+    ? [...trimmed.slice(0, -2).split("+"), "+"]
+    : trimmed === "+" ? ["+"] : trimmed.split("+");
+
+  const modifiers = new Set<KeyModifier>();
+  for (const name of extraModifiers) {
+    const modifier = MODIFIER_ALIASES[name.trim().toLowerCase()];
+    if (modifier) modifiers.add(modifier);
+  }
+
+  let key = "";
+  for (const part of parts) {
+    const token = part.trim();
+    if (!token) continue;
+    const modifier = MODIFIER_ALIASES[token.toLowerCase()];
+    if (modifier && parts.length > 1) {
+      modifiers.add(modifier);
+      continue;
+    }
+    key = token;
+  }
+
+  if (!key) {
+    // "Shift" alone: press the modifier key itself.
+    const lone = Array.from(modifiers).pop();
+    if (!lone) return null;
+    modifiers.delete(lone);
+    key = MODIFIER_KEY_NAMES[lone];
+  }
+
+  const alias = KEY_ALIASES[key.toLowerCase()];
+  if (alias) key = alias;
+  else if (key.length === 1) key = modifiers.has("shift") ? key.toUpperCase() : key.toLowerCase();
+  else if (/^f\d{1,2}$/i.test(key)) key = key.toUpperCase();
+
+  return { key, modifiers: MODIFIER_ORDER.filter((modifier) => modifiers.has(modifier)) };
+};
+
+export const formatKeyCombo = (combo: KeyCombo): string => {
+  const names = combo.modifiers.map((modifier) => MODIFIER_KEY_NAMES[modifier].replace("Control", "Ctrl"));
+  const key = combo.key === " " ? "Space" : combo.key.length === 1 ? combo.key.toUpperCase() : combo.key;
+  return [...names, key].join("+");
+};
+
+/** `KeyboardEvent.code` for the key on a US layout. */
+export const getKeyCode = (key: string): string => {
+  if (key === " ") return "Space";
+  if (/^[a-z]$/i.test(key)) return `Key${key.toUpperCase()}`;
+  if (/^[0-9]$/.test(key)) return `Digit${key}`;
+  if (key === "Control") return "ControlLeft";
+  if (key === "Shift" || key === "Alt" || key === "Meta") return `${key}Left`;
+  if (key.length === 1) return "";
+  return key;
+};
+
+const isPrintableKey = (combo: KeyCombo): boolean =>
+  combo.key.length === 1 && !combo.modifiers.includes("ctrl") && !combo.modifiers.includes("meta");
+
+// ── Event dispatch ──────────────────────────────────────────────────
+
+export const createKeyboardEvent = (type: string, key: string, modifiers: KeyModifier[]): KeyboardEvent => {
+  const event = new KeyboardEvent(type, {
+    key,
+    code: getKeyCode(key),
+    bubbles: true,
+    cancelable: true,
+    composed: true,
+    ctrlKey: modifiers.includes("ctrl"),
+    shiftKey: modifiers.includes("shift"),
+    altKey: modifiers.includes("alt"),
+    metaKey: modifiers.includes("meta"),
+  });
+
+  const legacyCode =
+    type === "keypress" && key.length === 1
+      ? key.charCodeAt(0)
+      : LEGACY_KEY_CODES[key] ?? (key.length === 1 ? key.toUpperCase().charCodeAt(0) : 0);
+  Object.defineProperty(event, "keyCode", { get: () => legacyCode });
+  Object.defineProperty(event, "which", { get: () => legacyCode });
+  return event;
+};
+
+/**
+ * Dispatch keydown / keypress / keyup for the combo on `target`, wrapping it
+ * in modifier key presses. Returns true when the page cancelled keydown.
+ */
+export const dispatchKeyCombo = (target: EventTarget, combo: KeyCombo): boolean => {
+  const held: KeyModifier[] = [];
+  for (const modifier of combo.modifiers) {
+    held.push(modifier);
+    target.dispatchEvent(createKeyboardEvent("keydown", MODIFIER_KEY_NAMES[modifier], [...held]));
+  }
+
+  const keydownAccepted = target.dispatchEvent(createKeyboardEvent("keydown", combo.key, combo.modifiers));
+  if (keydownAccepted && (isPrintableKey(combo) || combo.key === "Enter")) {
+    target.dispatchEvent(createKeyboardEvent("keypress", combo.key, combo.modifiers));
+  }
+  target.dispatchEvent(createKeyboardEvent("keyup", combo.key, combo.modifiers));
+
+  for (const modifier of [...combo.modifiers].reverse()) {
+    held.pop();
+    target.dispatchEvent(createKeyboardEvent("keyup", MODIFIER_KEY_NAMES[modifier], [...held]));
+  }
+
+  return !keydownAccepted;
+};
+
+// ── Default actions ─────────────────────────────────────────────────
+
+const TABBABLE_SELECTOR = [
+  "a[href]",
+  "button",
+  "input",
+  "select",
+  "textarea",
+  "summary",
+  "iframe",
+  "[tabindex]",
+  '[contenteditable="true"]',
+].join(", ");
+
+const isTabbable = (element: HTMLElement): boolean => {
+  if (element.tabIndex < 0) return false;
+  if (element.hasAttribute("disabled")) return false;
+  if (isInstanceOf(element, HTMLInputElement) && element.type === "hidden") return false;
+  if (element.closest("[hidden], [inert]")) return false;
+  // Focus passes through a same-origin frame into its content.
+  if (getFrameDocument(element)) return false;
+  const rect = element.getBoundingClientRect();
+  if (rect.width === 0 && rect.height === 0) return false;
+  return getElementWindow(element).getComputedStyle(element).visibility !== "hidden";
+};
+
+/**
+ * Tabbable elements in sequential focus navigation order, shadow and
+ * same-origin frame content included where its host sits.
+ */
+export const getTabbableElements = (root: Document | ShadowRoot = document): HTMLElement[] => {
+  const tabbable = collectDeepElements(root).filter(
+    (element): element is HTMLElement =>
+      isInstanceOf(element, HTMLElement) && element.matches(TABBABLE_SELECTOR) && isTabbable(element),
+  );
+  const positive = tabbable
+    .filter((element) => element.tabIndex > 0)
+    .sort((a, b) => a.tabIndex - b.tabIndex);
+  return [...positive, ...tabbable.filter((element) => element.tabIndex === 0)];
+};
+
+const moveFocus = (from: Element | null, backwards: boolean) => {
+  const order = getTabbableElements();
+  if (order.length === 0) return;
+  const currentIndex = isInstanceOf(from, HTMLElement) ? order.indexOf(from) : -1;
+  const nextIndex =
+    currentIndex < 0
+      ? (backwards ? order.length - 1 : 0)
+      : (currentIndex + (backwards ? -1 : 1) + order.length) % order.length;
+  order[nextIndex].focus();
+};
+
+type TextField = HTMLInputElement | HTMLTextAreaElement;
+
+const insertText = (element: TextField, text: string, inputType: string) => {
+  const start = element.selectionStart ?? element.value.length;
+  const end = element.selectionEnd ?? element.value.length;
+  element.setRangeText(text, start, end, "end");
+  element.dispatchEvent(new InputEvent("input", { bubbles: true, inputType, data: inputType === "insertText" ? text : null }));
+};
+
+/** Backspace / Delete: remove the selection, else one character before / after the caret. */
+const deleteText = (element: TextField, forward: boolean) => {
+  const start = element.selectionStart ?? element.value.length;
+  const end = element.selectionEnd ?? start;
+  const [from, to] = start !== end
+    ? [start, end]
+    : forward ? [start, Math.min(start + 1, element.value.length)] : [Math.max(0, start - 1), start];
+  if (from === to) return;
+  element.setRangeText("", from, to, "end");
+  element.dispatchEvent(new InputEvent("input", {
+    bubbles: true,
+    inputType: forward ? "deleteContentForward" : "deleteContentBackward",
+    data: null,
+  }));
+};
+
+const supportsTextSelection = (element: HTMLInputElement): boolean =>
+  ["text", "search", "url", "tel", "password", ""].includes(element.type);
+
+/** Input types where Enter submits the form (implicit submission). */
+const IMPLICIT_SUBMIT_TYPES = new Set([
+  "", "text", "search", "url", "tel", "email", "password", "number",
+  "date", "month", "week", "time", "datetime-local",
+]);
+
+/** Input types Enter activates like a button. */
+const BUTTON_INPUT_TYPES = new Set(["submit", "image", "reset", "button"]);
+
+/**
+ * Implicit submission goes through the form's default button, so its
+ * name/value is submitted; a disabled default button blocks it.
+ */
+const submitImplicitly = (form: HTMLFormElement) => {
+  const defaultButton = Array.from(form.elements).find(
+    (control): control is HTMLButtonElement | HTMLInputElement =>
+      (isInstanceOf(control, HTMLButtonElement) && control.type === "submit") ||
+      (isInstanceOf(control, HTMLInputElement) && (control.type === "submit" || control.type === "image")),
+  );
+  if (!defaultButton) form.requestSubmit();
+  else if (!defaultButton.disabled) defaultButton.click();
+};
+
+const getEditableField = (target: HTMLElement): TextField | null => {
+  if (target.hasAttribute("readonly")) return null;
+  if (isInstanceOf(target, HTMLTextAreaElement)) return target;
+  return isInstanceOf(target, HTMLInputElement) && supportsTextSelection(target) ? target : null;
+};
+
+/**
+ * Perform what the browser would do for a trusted key press, since synthetic
+ * keyboard events have no default action. Only native controls get one:
+ * ARIA widgets handle their own keys, so clicking them would activate twice.
+ * Keys in contenteditable editors are dispatch-only; editors apply them
+ * from their own keydown / beforeinput handlers.
+ */
+export const performDefaultKeyAction = (target: Element, combo: KeyCombo): void => {
+  const { key } = combo;
+
+  if (key === "Tab") {
+    moveFocus(target, combo.modifiers.includes("shift"));
+    return;
+  }
+
+  if (!isInstanceOf(target, HTMLElement)) return;
+
+  if (key === "Enter") {
+    if (isInstanceOf(target, HTMLTextAreaElement)) {
+      if (!target.hasAttribute("readonly")) insertText(target, "\n", "insertLineBreak");
+      return;
+    }
+    if (isInstanceOf(target, HTMLInputElement)) {
+      if (BUTTON_INPUT_TYPES.has(target.type)) target.click();
+      else if (IMPLICIT_SUBMIT_TYPES.has(target.type) && target.form) submitImplicitly(target.form);
+      return;
+    }
+    if (
+      isInstanceOf(target, HTMLButtonElement) ||
+      (isInstanceOf(target, HTMLAnchorElement) && target.hasAttribute("href")) ||
+      target.tagName === "SUMMARY"
+    ) {
+      target.click();
+    }
+    return;
+  }
+
+  if (key === " ") {
+    if (
+      isInstanceOf(target, HTMLButtonElement) ||
+      (isInstanceOf(target, HTMLInputElement) && ["checkbox", "radio", "button", "submit"].includes(target.type)) ||
+      target.tagName === "SUMMARY"
+    ) {
+      target.click();
+      return;
+    }
+  }
+
+  const field = getEditableField(target);
+  if (!field) return;
+  if (key === "Backspace" || key === "Delete") deleteText(field, key === "Delete");
+  else if (isPrintableKey(combo)) insertText(field, key, "insertText");
+};
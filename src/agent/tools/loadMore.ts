@@ -0,0 +1,172 @@
+import { isElementDisabled } from "../context";
+import { isInstanceOf, getElementWindow } from "../context/domTraversal";
+import { LOAD_MORE_MAX_SNIPPETS, LOAD_MORE_SNIPPET_LENGTH } from "./constants";
+
+export type LoadMoreControlKind = "loadMore" | "nextPage";
+
+const LOAD_MORE_PATTERNS = [
+  /daha fazla/,
+  /devamını (gör|göster|yükle)/,
+  /(tümünü|hepsini) göster/,
+  /\bload more\b/,
+  /\bshow more\b/,
+  /\bmore results\b/,
+  /\bsee more\b/,
+];
+
+const NEXT_PAGE_PATTERNS = [
+  /^sonraki( sayfa)?$/,
+  /^ileri$/,
+  /^next( page)?$/,
+  /^[›»→>]+$/,
+];
+
+/** Classify a control label as a load-more or next-page control. */
+export const classifyLoadMoreLabel = (label: string): LoadMoreControlKind | null => {
+  const normalized = label.replace(/\s+/g, " ").trim().toLocaleLowerCase("tr");
+  if (!normalized || normalized.length > 60) return null;
+  if (LOAD_MORE_PATTERNS.some((pattern) => pattern.test(normalized))) return "loadMore";
+  if (NEXT_PAGE_PATTERNS.some((pattern) => pattern.test(normalized))) return "nextPage";
+  return null;
+};
+
+export interface LoadMoreControl {
+  element: HTMLElement;
+  kind: LoadMoreControlKind;
+  /** Set when activating the control would unload the page. */
+  pageUrl?: string;
+}
+
+const CONTROL_SELECTOR = 'button, a[href], [role="button"], [role="link"], input[type="button"]';
+
+const controlLabel = (element: HTMLElement): string =>
+  element.getAttribute("aria-label") ||
+  (isInstanceOf(element, HTMLInputElement) ? element.value : element.innerText || element.textContent || "");
+
+const isVisible = (element: HTMLElement): boolean => {
+  const rect = element.getBoundingClientRect();
+  if (rect.width === 0 && rect.height === 0) return false;
+  const style = getElementWindow(element).getComputedStyle(element);
+  return style.display !== "none" && style.visibility !== "hidden";
+};
+
+/** Full-page URL for links leaving the current document, else undefined. */
+const getFullPageUrl = (element: HTMLElement): string | undefined => {
+  if (!isInstanceOf(element, HTMLAnchorElement)) return undefined;
+  const href = element.getAttribute("href")?.trim() ?? "";
+  if (!href || href.startsWith("#") || href.toLowerCase().startsWith("javascript:")) return undefined;
+  try {
+    const target = new URL(element.href, window.location.href);
+    const current = new URL(window.location.href);
+    const sameDocument =
+      target.origin === current.origin &&
+      target.pathname === current.pathname &&
+      target.search === current.search;
+    return sameDocument ? undefined : target.href;
+  } catch {
+    return undefined;
+  }
+};
+
+/**
+ * Find a load-more button or next-page control inside `scope`, preferring
+ * load-more controls. `rel="next"` links count as next-page controls.
+ */
+export const findLoadMoreControl = (scope: ParentNode): LoadMoreControl | null => {
+  let nextPage: LoadMoreControl | null = null;
+
+  for (const element of scope.querySelectorAll<HTMLElement>(CONTROL_SELECTOR)) {
+    if (isElementDisabled(element) || !isVisible(element)) continue;
+    const relNext = element.getAttribute("rel")?.split(/\s+/).includes("next");
+    const kind = classifyLoadMoreLabel(controlLabel(element)) ?? (relNext ? "nextPage" : null);
+    if (!kind) continue;
+
+    const control = { element, kind, pageUrl: getFullPageUrl(element) };
+    if (kind === "loadMore") return control;
+    nextPage ??= control;
+  }
+
+  return nextPage;
+};
+
+// ── Added content tracking ──────────────────────────────────────────
+
+export interface AddedContentRecorder {
+  /** Text of the outermost elements added since recording started. */
+  snippets: () => string[];
+  /** Position in the mutation log, for `replacedSince`. */
+  checkpoint: () => number;
+  /**
+   * True when, since `checkpoint`, elements that existed before it were
+   * removed and new ones are on the page: a "next page" control swapped
+   * the items instead of appending. A loading spinner that comes and goes
+   * does not count.
+   */
+  replacedSince: (checkpoint: number) => boolean;
+  stop: () => void;
+}
+
+/** Record elements added under `root` while more content loads. */
+export const recordAddedContent = (root: Node): AddedContentRecorder => {
+  let sequence = 0;
+  const addedAt = new Map<Element, number>();
+  const removals: { element: Element; at: number }[] = [];
+
+  const collect = (records: MutationRecord[]) => {
+    for (const record of records) {
+      sequence += 1;
+      for (const node of record.addedNodes) {
+        if (isInstanceOf(node, Element)) addedAt.set(node, sequence);
+      }
+      for (const node of record.removedNodes) {
+        if (isInstanceOf(node, Element)) removals.push({ element: node, at: sequence });
+      }
+    }
+  };
+  const observer = new MutationObserver(collect);
+  observer.observe(root, { childList: true, subtree: true });
+
+  return {
+    checkpoint: () => {
+      collect(observer.takeRecords());
+      return sequence;
+    },
+    replacedSince: (checkpoint) => {
+      collect(observer.takeRecords());
+      const removedExisting = removals.some(({ element, at }) =>
+        at > checkpoint && (addedAt.get(element) ?? 0) <= checkpoint);
+      if (!removedExisting) return false;
+      return Array.from(addedAt).some(([element, at]) => at > checkpoint && element.isConnected);
+    },
+    snippets: () => {
+      collect(observer.takeRecords());
+      const added = new Set(addedAt.keys());
+      const outermost = Array.from(added).filter((element) => {
+        if (!element.isConnected) return false;
+        let parent = element.parentElement;
+        while (parent) {
+          if (added.has(parent)) return false;
+          parent = parent.parentElement;
+        }
+        return true;
+      });
+
+      const snippets: string[] = [];
+      for (const element of outermost) {
+        const raw = isInstanceOf(element, HTMLElement) ? element.innerText : element.textContent;
+        const text = (raw ?? "").replace(/\s+/g, " ").trim();
+        if (!text) continue;
+        snippets.push(
+          text.length > LOAD_MORE_SNIPPET_LENGTH ? `${text.slice(0, LOAD_MORE_SNIPPET_LENGTH)}…` : text,
+        );
+        if (snippets.length >= LOAD_MORE_MAX_SNIPPETS) break;
+      }
+      return snippets;
+    },
+    stop: () => observer.disconnect(),
+  };
+};
+
+/** Cheap growth signal: number of elements under the region. */
+export const countElements = (root: ParentNode): number =>
+  root.querySelectorAll("*").length;
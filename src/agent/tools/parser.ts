@@ -1,4 +1,12 @@
-import type { AgentToolCall, ParsedAgentResponse } from "./types";
+import type {
+  AgentToolCall,
+  FillFormValue,
+  InteractAction,
+  ParsedAgentResponse,
+  ScrollDirection,
+  WaitCondition,
+  WaitForToolCall,
+} from "./types";
 
 interface JsonObject {
   [key: string]: unknown;
@@ -13,6 +21,57 @@ const asString = (value: unknown): string | undefined =>
 const asNumber = (value: unknown): number | undefined =>
   typeof value === "number" && Number.isFinite(value) ? value : undefined;
 
+/** Option values may arrive as JSON numbers; keep them as strings. */
+const asScalarString = (value: unknown): string | undefined =>
+  asNumber(value) !== undefined ? String(value) : asString(value);
+
+const asFillFormValue = (value: unknown): FillFormValue | undefined => {
+  if (typeof value === "boolean") return value;
+  if (Array.isArray(value)) {
+    const items = value.map(asScalarString).filter((item): item is string => item !== undefined);
+    return items.length > 0 ? items : undefined;
+  }
+  // Empty strings are kept so a field can be cleared.
+  return typeof value === "string" ? value : asScalarString(value);
+};
+
+const SCROLL_DIRECTIONS: readonly ScrollDirection[] = ["up", "down", "top", "bottom"];
+
+const WAIT_CONDITIONS: readonly WaitCondition[] = ["visible", "hidden", "text", "url", "attribute"];
+
+/** Validate a `waitFor` call, inferring the condition from its fields when omitted. */
+const parseWaitForCall = (item: JsonObject): WaitForToolCall | null => {
+  const id = asNumber(item.id);
+  const selector = asString(item.selector);
+  const text = asString(item.text);
+  const url = asString(item.url);
+  const attribute = asString(item.attribute);
+  const hasTarget = id !== undefined || Boolean(selector);
+
+  const explicit = asString(item.condition) as WaitCondition | undefined;
+  const condition = explicit && WAIT_CONDITIONS.includes(explicit)
+    ? explicit
+    : url ? "url" : attribute ? "attribute" : text ? "text" : hasTarget ? "visible" : undefined;
+  if (!condition) return null;
+
+  if (condition === "url" && !url) return null;
+  if (condition === "text" && !text) return null;
+  if ((condition === "visible" || condition === "hidden" || condition === "attribute") && !hasTarget) return null;
+  if (condition === "attribute" && !attribute) return null;
+
+  return {
+    tool: "waitFor",
+    condition,
+    id,
+    selector,
+    text,
+    url,
+    attribute,
+    value: asScalarString(item.value),
+    timeout: asNumber(item.timeout),
+  };
+};
+
 const extractJsonCandidate = (raw: string): string => {
   const trimmed = raw.trim();
   const fencedMatch = trimmed.match(/```(?:json)?\s*([\s\S]*?)\s*```/i);
@@ -61,7 +120,16 @@ const parseJsonFromRaw = (raw: string): unknown => {
   }
 };
 
-type InteractAction = "move" | "click" | "type" | "submit";
+const INTERACT_ACTIONS: readonly InteractAction[] = [
+  "move", "click", "type", "submit", "select", "press", "hover", "setValue", "check", "uncheck",
+  "doubleClick", "contextClick", "longPress",
+];
+
+const asStringList = (value: unknown): string[] | undefined => {
+  if (!Array.isArray(value)) return undefined;
+  const items = value.map(asString).filter((item): item is string => Boolean(item));
+  return items.length > 0 ? items : undefined;
+};
 
 const sanitizeToolCalls = (value: unknown): AgentToolCall[] => {
   if (!Array.isArray(value)) return [];
@@ -72,7 +140,9 @@ const sanitizeToolCalls = (value: unknown): AgentToolCall[] => {
 
     if (item.tool === "interact") {
       const action = asString(item.action) as InteractAction | undefined;
-      if (!action || !["move", "click", "type", "submit"].includes(action)) continue;
+      if (!action || !INTERACT_ACTIONS.includes(action)) continue;
+      if (action === "press" && !asString(item.key)) continue;
+      if (action === "setValue" && asScalarString(item.value) === undefined) continue;
       toolCalls.push({
         tool: "interact",
         action,
@@ -81,6 +151,16 @@ const sanitizeToolCalls = (value: unknown): AgentToolCall[] => {
         text: typeof item.text === "string" ? item.text : undefined,
         x: asNumber(item.x),
         y: asNumber(item.y),
+        value: asScalarString(item.value),
+        label: asString(item.label),
+        index: asNumber(item.index),
+        key: asString(item.key),
+        modifiers: asStringList(item.modifiers),
+        typing: item.typing === "realistic" || item.typing === "instant" ? item.typing : undefined,
+        delay: asNumber(item.delay),
+        append: typeof item.append === "boolean" ? item.append : undefined,
+        caret: item.caret === "start" || item.caret === "end" ? item.caret : undefined,
+        caretAfter: typeof item.caretAfter === "string" && item.caretAfter ? item.caretAfter : undefined,
       });
       continue;
     }
@@ -97,11 +177,72 @@ const sanitizeToolCalls = (value: unknown): AgentToolCall[] => {
       continue;
     }
 
+    if (item.tool === "find") {
+      const query = asString(item.query) ?? asString(item.text);
+      if (!query) continue;
+      toolCalls.push({ tool: "find", query, limit: asNumber(item.limit) });
+      continue;
+    }
+
+    if (item.tool === "readElement") {
+      toolCalls.push({
+        tool: "readElement",
+        id: asNumber(item.id),
+        heading: asString(item.heading),
+        page: asNumber(item.page),
+      });
+      continue;
+    }
+
+    if (item.tool === "fillForm") {
+      const id = asNumber(item.id);
+      const rawValues = isObject(item.values) ? item.values : isObject(item.fields) ? item.fields : null;
+      if (id === undefined || !rawValues) continue;
+      const values: Record<string, FillFormValue> = {};
+      for (const [key, raw] of Object.entries(rawValues)) {
+        const value = asFillFormValue(raw);
+        if (key.trim() && value !== undefined) values[key.trim()] = value;
+      }
+      if (Object.keys(values).length > 0) toolCalls.push({ tool: "fillForm", id, values });
+      continue;
+    }
+
+    if (item.tool === "readTable") {
+      const id = asNumber(item.id);
+      if (id === undefined) continue;
+      toolCalls.push({ tool: "readTable", id, page: asNumber(item.page) });
+      continue;
+    }
+
+    if (item.tool === "loadMore") {
+      toolCalls.push({
+        tool: "loadMore",
+        container: asNumber(item.container),
+        maxIterations: asNumber(item.maxIterations),
+      });
+      continue;
+    }
+
+    if (item.tool === "waitFor") {
+      const call = parseWaitForCall(item);
+      if (call) toolCalls.push(call);
+      continue;
+    }
+
     if (item.tool === "scroll") {
       const id = asNumber(item.id);
       const selector = asString(item.selector);
-      if (!id && !selector) continue;
-      toolCalls.push({ tool: "scroll", id, selector });
+      const direction = asString(item.direction) as ScrollDirection | undefined;
+      const validDirection = direction && SCROLL_DIRECTIONS.includes(direction) ? direction : undefined;
+      if (!id && !selector && !validDirection) continue;
+      toolCalls.push({
+        tool: "scroll",
+        id,
+        selector,
+        direction: validDirection,
+        amount: item.amount === "page" || item.amount === "half" ? item.amount : undefined,
+        container: asNumber(item.container),
+      });
     }
   }
 
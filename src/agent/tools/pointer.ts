@@ -0,0 +1,156 @@
+import { isInstanceOf, getElementWindow, getFrameOffset, deepElementFromPoint } from "../context/domTraversal";
+import { AGENT_CURSOR_ID, BULUT_HOST_ID, LONG_PRESS_DURATION_MS } from "./constants";
+
+// ── Synthetic pointer / mouse event dispatch ───────────────────────
+
+/**
+ * Dispatch a mouse event at page coordinates (x, y). Events for frame
+ * content are built in the frame's realm with frame-relative coordinates.
+ */
+export const dispatchMouseEvent = (
+  element: HTMLElement,
+  type: string,
+  x: number,
+  y: number,
+  init: MouseEventInit = {},
+) => {
+  const view = getElementWindow(element);
+  const offset = getFrameOffset(element);
+  element.dispatchEvent(
+    new (view as unknown as typeof globalThis).MouseEvent(type, {
+      bubbles: true,
+      cancelable: true,
+      view,
+      clientX: x - window.scrollX - offset.x,
+      clientY: y - window.scrollY - offset.y,
+      ...init,
+    }),
+  );
+};
+
+const PRIMARY_DOWN: MouseEventInit = { button: 0, buttons: 1 };
+const PRIMARY_UP: MouseEventInit = { button: 0, buttons: 0 };
+const SECONDARY_DOWN: MouseEventInit = { button: 2, buttons: 2 };
+const SECONDARY_UP: MouseEventInit = { button: 2, buttons: 0 };
+
+/** Full press/release/click sequence at page coordinates (x, y). */
+export const dispatchClick = (element: HTMLElement, x: number, y: number) => {
+  dispatchMouseEvent(element, "pointerdown", x, y);
+  dispatchMouseEvent(element, "mousedown", x, y);
+  dispatchMouseEvent(element, "pointerup", x, y);
+  dispatchMouseEvent(element, "mouseup", x, y);
+  element.click();
+};
+
+/** Two press/release/click sequences (detail 1 and 2) followed by `dblclick`. */
+export const dispatchDoubleClick = (element: HTMLElement, x: number, y: number) => {
+  for (const detail of [1, 2]) {
+    dispatchMouseEvent(element, "pointerdown", x, y, { ...PRIMARY_DOWN, detail });
+    dispatchMouseEvent(element, "mousedown", x, y, { ...PRIMARY_DOWN, detail });
+    dispatchMouseEvent(element, "pointerup", x, y, { ...PRIMARY_UP, detail });
+    dispatchMouseEvent(element, "mouseup", x, y, { ...PRIMARY_UP, detail });
+    dispatchMouseEvent(element, "click", x, y, { ...PRIMARY_UP, detail });
+  }
+  dispatchMouseEvent(element, "dblclick", x, y, { ...PRIMARY_UP, detail: 2 });
+};
+
+/** Secondary-button press/release followed by `contextmenu`, as a right click does. */
+export const dispatchContextClick = (element: HTMLElement, x: number, y: number) => {
+  dispatchMouseEvent(element, "pointerdown", x, y, SECONDARY_DOWN);
+  dispatchMouseEvent(element, "mousedown", x, y, SECONDARY_DOWN);
+  dispatchMouseEvent(element, "pointerup", x, y, SECONDARY_UP);
+  dispatchMouseEvent(element, "mouseup", x, y, SECONDARY_UP);
+  dispatchMouseEvent(element, "contextmenu", x, y, SECONDARY_UP);
+};
+
+/**
+ * Hold the primary button for `durationMs` before releasing. No `click` is
+ * sent: long-press handlers expect the release to not activate the target.
+ */
+export const dispatchLongPress = async (
+  element: HTMLElement,
+  x: number,
+  y: number,
+  durationMs = LONG_PRESS_DURATION_MS,
+) => {
+  dispatchMouseEvent(element, "pointerdown", x, y, PRIMARY_DOWN);
+  dispatchMouseEvent(element, "mousedown", x, y, PRIMARY_DOWN);
+  await new Promise((resolve) => setTimeout(resolve, durationMs));
+  dispatchMouseEvent(element, "pointerup", x, y, PRIMARY_UP);
+  dispatchMouseEvent(element, "mouseup", x, y, PRIMARY_UP);
+};
+
+// ── Hit testing ─────────────────────────────────────────────────────
+
+const isBulutUi = (element: Element): boolean =>
+  Boolean(element.closest(`#${AGENT_CURSOR_ID}, #${BULUT_HOST_ID}`));
+
+/**
+ * Topmost page element at page coordinates (x, y), skipping the agent cursor
+ * and the widget host and descending into open shadow roots and same-origin
+ * frames. SVG / MathML hits resolve to their nearest HTML ancestor so the
+ * usual event helpers apply.
+ */
+export const elementAtPoint = (x: number, y: number): HTMLElement | null => {
+  let element = deepElementFromPoint(x - window.scrollX, y - window.scrollY, isBulutUi);
+  while (element && !isInstanceOf(element, HTMLElement)) element = element.parentElement;
+  return isInstanceOf(element, HTMLElement) ? element : null;
+};
+
+// ── Hover ───────────────────────────────────────────────────────────
+
+/**
+ * Element the agent pointer currently rests on. Kept across tool calls so a
+ * hover-opened menu stays open while the agent clicks one of its items.
+ */
+let hoveredElement: HTMLElement | null = null;
+
+const ancestorChain = (element: HTMLElement): HTMLElement[] => {
+  const chain: HTMLElement[] = [];
+  let current: HTMLElement | null = element;
+  while (current) {
+    chain.push(current);
+    current = current.parentElement;
+  }
+  return chain;
+};
+
+const NON_BUBBLING = { bubbles: false, cancelable: false };
+
+/**
+ * Move the synthetic pointer onto `element`, dispatching the over/enter
+ * sequence a real mouse would. Leave events only fire for ancestors the
+ * pointer actually exits, so parent menus stay open.
+ *
+ * CSS `:hover` cannot be triggered from script; this reaches menus driven
+ * by JavaScript pointer/mouse listeners.
+ */
+export const hoverElement = (element: HTMLElement, x: number, y: number) => {
+  const previous = hoveredElement?.isConnected ? hoveredElement : null;
+  const previousChain = previous ? ancestorChain(previous) : [];
+  const nextChain = ancestorChain(element);
+
+  if (previous && previous !== element) {
+    dispatchMouseEvent(previous, "pointerout", x, y);
+    dispatchMouseEvent(previous, "mouseout", x, y);
+    for (const left of previousChain) {
+      if (nextChain.includes(left)) break;
+      dispatchMouseEvent(left, "pointerleave", x, y, NON_BUBBLING);
+      dispatchMouseEvent(left, "mouseleave", x, y, NON_BUBBLING);
+    }
+  }
+
+  if (previous !== element) {
+    dispatchMouseEvent(element, "pointerover", x, y);
+    dispatchMouseEvent(element, "mouseover", x, y);
+    const entered = nextChain.filter((ancestor) => !previousChain.includes(ancestor)).reverse();
+    for (const ancestor of entered) {
+      dispatchMouseEvent(ancestor, "pointerenter", x, y, NON_BUBBLING);
+      dispatchMouseEvent(ancestor, "mouseenter", x, y, NON_BUBBLING);
+    }
+  }
+
+  dispatchMouseEvent(element, "pointermove", x, y);
+  dispatchMouseEvent(element, "mousemove", x, y);
+  hoveredElement = element;
+};
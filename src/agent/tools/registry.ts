@@ -0,0 +1,63 @@
+import type { CustomToolDefinition, CustomToolSchema } from "./types";
+
+/**
+ * Tool names handled by the built-in executors; hosts cannot override them.
+ * The executor dispatch table is keyed by this list, so the two cannot drift.
+ */
+export const BUILT_IN_TOOL_NAMES = [
+  "interact",
+  "scroll",
+  "getPageContext",
+  "navigate",
+  "waitFor",
+  "loadMore",
+  "find",
+  "readElement",
+  "readTable",
+  "fillForm",
+] as const;
+
+export type BuiltInToolName = (typeof BUILT_IN_TOOL_NAMES)[number];
+
+export const isBuiltInToolName = (name: string): name is BuiltInToolName =>
+  (BUILT_IN_TOOL_NAMES as readonly string[]).includes(name);
+
+const TOOL_NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_-]{0,63}$/;
+
+const customTools = new Map<string, CustomToolDefinition>();
+
+/**
+ * Register a host-defined tool the agent can call.
+ * Re-registering an existing name replaces the previous definition.
+ */
+export const registerTool = (name: string, definition: CustomToolDefinition): void => {
+  if (!TOOL_NAME_PATTERN.test(name)) {
+    throw new Error(`Bulut registerTool: invalid tool name "${name}"`);
+  }
+  if (isBuiltInToolName(name)) {
+    throw new Error(`Bulut registerTool: "${name}" is a built-in tool`);
+  }
+  if (typeof definition?.handler !== "function") {
+    throw new Error(`Bulut registerTool: tool "${name}" requires a handler`);
+  }
+  customTools.set(name, definition);
+};
+
+/** Remove a previously registered tool. Returns false when it was unknown. */
+export const unregisterTool = (name: string): boolean => customTools.delete(name);
+
+export const getRegisteredTool = (name: string): CustomToolDefinition | undefined =>
+  customTools.get(name);
+
+/** Serializable tool list sent to the backend in the agent `start` message. */
+export const getRegisteredToolSchemas = (): CustomToolSchema[] =>
+  Array.from(customTools.entries()).map(([name, definition]) => ({
+    name,
+    description: definition.description,
+    args_schema: definition.argsSchema ?? { type: "object", properties: {} },
+  }));
+
+/** Drop every host-registered tool. */
+export const clearRegisteredTools = (): void => {
+  customTools.clear();
+};
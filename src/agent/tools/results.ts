@@ -0,0 +1,89 @@
+import { describeElement, getElementState } from "../context";
+import { isInstanceOf } from "../context/domTraversal";
+import type { ToolFailureReason, ToolOutcome } from "./types";
+import type { DomSettleResult } from "./settle";
+
+export interface ElementSnapshot {
+  url: string;
+  connected: boolean;
+  value?: string;
+  states: string[];
+}
+
+export const toolSuccess = (
+  action: string,
+  fields: Partial<Omit<ToolOutcome, "status" | "action">> = {},
+): ToolOutcome => ({ status: "ok", action, ...fields });
+
+export const toolFailure = (
+  action: string,
+  reason: ToolFailureReason,
+  message: string,
+  fields: Partial<Omit<ToolOutcome, "status" | "action" | "reason" | "message">> = {},
+): ToolOutcome => ({ status: "failed", action, reason, message, ...fields });
+
+export const serializeToolOutcome = (outcome: ToolOutcome): string =>
+  JSON.stringify(outcome);
+
+export const settleFields = (settle?: DomSettleResult): Partial<ToolOutcome> => {
+  if (!settle) return {};
+  return settle.timedOut
+    ? { settle_ms: settle.settleMs, settle_timed_out: true }
+    : { settle_ms: settle.settleMs };
+};
+
+/** `[id] Type: "label"` when the element came from the semantic map. */
+export const describeTarget = (element: Element, id?: number): string => {
+  const descriptor = describeElement(element);
+  return typeof id === "number" ? `[${id}] ${descriptor}` : descriptor;
+};
+
+const readElementValue = (element: Element): string | undefined => {
+  if (
+    isInstanceOf(element, HTMLInputElement) ||
+    isInstanceOf(element, HTMLTextAreaElement) ||
+    isInstanceOf(element, HTMLSelectElement)
+  ) {
+    if (isInstanceOf(element, HTMLInputElement) && (element.type === "checkbox" || element.type === "radio")) {
+      return undefined;
+    }
+    return element.value;
+  }
+  if (isInstanceOf(element, HTMLElement) && element.isContentEditable) {
+    return (element.textContent || "").trim();
+  }
+  return undefined;
+};
+
+export const captureElementSnapshot = (element: Element): ElementSnapshot => ({
+  url: window.location.href,
+  connected: element.isConnected,
+  value: readElementValue(element),
+  states: getElementState(element),
+});
+
+const clipValue = (value: string): string =>
+  value.length > 60 ? `${value.substring(0, 60)}…` : value;
+
+/** Human-readable list of differences between two snapshots. */
+export const describeStateChanges = (
+  before: ElementSnapshot,
+  after: ElementSnapshot,
+): string[] => {
+  const changes: string[] = [];
+
+  if (before.url !== after.url) changes.push(`url: ${before.url} -> ${after.url}`);
+  if (before.connected && !after.connected) changes.push("element removed from page");
+
+  if (before.value !== after.value && after.value !== undefined) {
+    changes.push(`value: "${clipValue(before.value ?? "")}" -> "${clipValue(after.value)}"`);
+  }
+
+  const beforeStates = before.states.join(", ");
+  const afterStates = after.states.join(", ");
+  if (beforeStates !== afterStates) {
+    changes.push(`state: ${beforeStates || "none"} -> ${afterStates || "none"}`);
+  }
+
+  return changes;
+};
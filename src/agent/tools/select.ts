@@ -0,0 +1,211 @@
+import { getPrimaryRole, normalizeWhitespace } from "../context/helpers";
+import { getImplicitRole } from "../context/accessibleName";
+import { isInstanceOf } from "../context/domTraversal";
+import { SELECT_OPTION_WAIT_MS } from "./constants";
+import { dispatchClick } from "./pointer";
+import { getElementCenter } from "./cursor";
+
+export interface SelectOptionQuery {
+  value?: string;
+  label?: string;
+  index?: number;
+}
+
+export interface OptionCandidate {
+  value: string;
+  label: string;
+}
+
+export type SelectAttempt =
+  | { ok: true; selected: string }
+  | { ok: false; reason: "option_not_found" | "not_selectable" };
+
+const normalizeOptionText = (value: string): string =>
+  normalizeWhitespace(value).toLocaleLowerCase("tr");
+
+/**
+ * Pick the option matching the query: explicit index first, then exact
+ * value, exact label and finally a partial label match. Returns -1 if none.
+ */
+export const matchOptionIndex = (
+  options: OptionCandidate[],
+  query: SelectOptionQuery,
+): number => {
+  if (typeof query.index === "number") {
+    return Number.isInteger(query.index) && query.index >= 0 && query.index < options.length
+      ? query.index
+      : -1;
+  }
+
+  const wantedValue = query.value !== undefined ? normalizeOptionText(query.value) : "";
+  const wantedLabel = query.label !== undefined ? normalizeOptionText(query.label) : "";
+  if (!wantedValue && !wantedLabel) return -1;
+
+  const byValue = options.findIndex((option) => wantedValue && normalizeOptionText(option.value) === wantedValue);
+  if (byValue >= 0) return byValue;
+
+  const labels = options.map((option) => normalizeOptionText(option.label));
+  for (const wanted of [wantedLabel, wantedValue]) {
+    if (!wanted) continue;
+    const exact = labels.indexOf(wanted);
+    if (exact >= 0) return exact;
+  }
+  for (const wanted of [wantedLabel, wantedValue]) {
+    if (!wanted) continue;
+    const partial = labels.findIndex((label) => label.includes(wanted));
+    if (partial >= 0) return partial;
+  }
+  return -1;
+};
+
+// ── Native <select> ─────────────────────────────────────────────────
+
+const selectNativeOption = (select: HTMLSelectElement, query: SelectOptionQuery): SelectAttempt => {
+  const options = Array.from(select.options);
+  const index = matchOptionIndex(
+    options.map((option) => ({ value: option.value, label: option.text })),
+    query,
+  );
+  const option = options[index];
+  if (!option || option.disabled) return { ok: false, reason: "option_not_found" };
+
+  select.focus();
+  if (select.multiple) {
+    option.selected = true;
+  } else {
+    const descriptor = Object.getOwnPropertyDescriptor(HTMLSelectElement.prototype, "value");
+    if (descriptor?.set) descriptor.set.call(select, option.value);
+    else select.value = option.value;
+    select.selectedIndex = index;
+  }
+
+  select.dispatchEvent(new Event("input", { bubbles: true }));
+  select.dispatchEvent(new Event("change", { bubbles: true }));
+  return { ok: true, selected: normalizeWhitespace(option.text) };
+};
+
+// ── ARIA listbox / combobox ─────────────────────────────────────────
+
+const LISTBOX_OWNER_ROLES = new Set(["combobox", "listbox"]);
+
+/**
+ * Comboboxes and listboxes always qualify; anything else only when it
+ * declares a listbox popup or controls an element with the listbox role.
+ * Menu buttons, disclosures and accordion toggles are refused, so `select`
+ * never clicks an ordinary button.
+ */
+const isListboxOwner = (element: HTMLElement, role: string): boolean => {
+  if (LISTBOX_OWNER_ROLES.has(role)) return true;
+  if (element.getAttribute("aria-haspopup") === "listbox") return true;
+  return (element.getAttribute("aria-controls") || "")
+    .split(/\s+/)
+    .filter(Boolean)
+    .some((id) => {
+      const controlled = element.ownerDocument.getElementById(id);
+      return controlled !== null && getPrimaryRole(controlled) === "listbox";
+    });
+};
+
+const findReferencedListbox = (element: HTMLElement): HTMLElement | null => {
+  if (getPrimaryRole(element) === "listbox") return element;
+
+  const ids = [
+    ...(element.getAttribute("aria-controls") || "").split(/\s+/),
+    ...(element.getAttribute("aria-owns") || "").split(/\s+/),
+  ].filter(Boolean);
+  for (const id of ids) {
+    const referenced = element.ownerDocument.getElementById(id);
+    if (!referenced) continue;
+    if (getPrimaryRole(referenced) === "listbox") return referenced;
+    const nested = referenced.querySelector<HTMLElement>('[role="listbox"]');
+    if (nested) return nested;
+  }
+
+  const nested = element.querySelector<HTMLElement>('[role="listbox"]');
+  if (nested) return nested;
+
+  return null;
+};
+
+const isShown = (element: HTMLElement): boolean => {
+  const rect = element.getBoundingClientRect();
+  return rect.width > 0 && rect.height > 0;
+};
+
+/** Open listboxes in `element`'s document (a frame's own document for frame content). */
+const listShownListboxes = (element: HTMLElement): HTMLElement[] =>
+  Array.from(element.ownerDocument.querySelectorAll<HTMLElement>('[role="listbox"]')).filter(isShown);
+
+/**
+ * The listbox the element controls or owns. Popups are often portalled to
+ * <body> without a reference; then only a listbox that was not already
+ * open before the click (`openBefore`) is accepted.
+ */
+const findOpenListbox = (element: HTMLElement, openBefore: ReadonlySet<HTMLElement>): HTMLElement | null => {
+  const referenced = findReferencedListbox(element);
+  if (referenced && isShown(referenced)) return referenced;
+  const opened = listShownListboxes(element).filter((listbox) => !openBefore.has(listbox));
+  return opened[opened.length - 1] ?? null;
+};
+
+const waitForListbox = async (
+  element: HTMLElement,
+  openBefore: ReadonlySet<HTMLElement>,
+): Promise<HTMLElement | null> => {
+  const deadline = performance.now() + SELECT_OPTION_WAIT_MS;
+  for (;;) {
+    const listbox = findOpenListbox(element, openBefore);
+    if (listbox) return listbox;
+    if (performance.now() >= deadline) return null;
+    await new Promise((resolve) => setTimeout(resolve, 50));
+  }
+};
+
+const clickElement = (element: HTMLElement) => {
+  const center = getElementCenter(element);
+  dispatchClick(element, center.x, center.y);
+};
+
+const selectAriaOption = async (element: HTMLElement, query: SelectOptionQuery): Promise<SelectAttempt> => {
+  const role = getImplicitRole(element);
+  if (!isListboxOwner(element, role)) {
+    return { ok: false, reason: "not_selectable" };
+  }
+
+  let openBefore = new Set<HTMLElement>();
+  if (role !== "listbox" && element.getAttribute("aria-expanded") !== "true") {
+    openBefore = new Set(listShownListboxes(element));
+    clickElement(element);
+  }
+
+  const listbox = await waitForListbox(element, openBefore);
+  if (!listbox) return { ok: false, reason: "option_not_found" };
+
+  const options = Array.from(listbox.querySelectorAll<HTMLElement>('[role="option"]'))
+    .filter((option) => option.getAttribute("aria-disabled") !== "true");
+  const index = matchOptionIndex(
+    options.map((option) => ({
+      value: option.getAttribute("data-value") || option.id,
+      label: option.getAttribute("aria-label") || option.textContent || "",
+    })),
+    query,
+  );
+  const option = options[index];
+  if (!option) return { ok: false, reason: "option_not_found" };
+
+  option.scrollIntoView({ block: "nearest" });
+  clickElement(option);
+  return {
+    ok: true,
+    selected: normalizeWhitespace(option.getAttribute("aria-label") || option.textContent || ""),
+  };
+};
+
+/** Select an option on a native <select> or an ARIA listbox/combobox widget. */
+export const selectOption = async (
+  element: HTMLElement,
+  query: SelectOptionQuery,
+): Promise<SelectAttempt> => {
+  if (isInstanceOf(element, HTMLSelectElement)) return selectNativeOption(element, query);
+  return selectAriaOption(element, query);
+};
@@ -0,0 +1,111 @@
+import {
+  AGENT_CURSOR_ID,
+  DOM_SETTLE_POLL_MS,
+  DOM_SETTLE_QUIET_MS,
+  DOM_SETTLE_TIMEOUT_MS,
+} from "./constants";
+
+export interface DomSettleSignals {
+  readyState: DocumentReadyState;
+  pendingResources: number;
+  msSinceLastMutation: number;
+  msSinceUrlChange: number;
+}
+
+export interface DomSettleResult {
+  settleMs: number;
+  timedOut: boolean;
+}
+
+/** The page is settled once it has loaded and stayed quiet for `quietMs`. */
+export const isDomSettled = (signals: DomSettleSignals, quietMs: number): boolean =>
+  signals.readyState === "complete" &&
+  signals.pendingResources === 0 &&
+  signals.msSinceLastMutation >= quietMs &&
+  signals.msSinceUrlChange >= quietMs;
+
+const countPendingResources = (): number => {
+  let pending = 0;
+  for (const image of Array.from(document.images)) {
+    if (image.loading === "lazy") continue;
+    if (image.currentSrc || image.src) {
+      if (!image.complete) pending += 1;
+    }
+  }
+  if (document.fonts?.status === "loading") pending += 1;
+  return pending;
+};
+
+/**
+ * Inline style churn (animations, carousels, our own cursor) would keep the
+ * page from ever looking quiet, so only structural and non-style changes count.
+ */
+const isRelevantMutation = (record: MutationRecord): boolean => {
+  if (record.target instanceof Element && record.target.id === AGENT_CURSOR_ID) return false;
+  if (record.type === "attributes" && record.attributeName === "style") return false;
+  return true;
+};
+
+/**
+ * Wait until the DOM stops changing, pending images/fonts have loaded,
+ * `document.readyState` is complete and the URL is stable — or until
+ * `timeoutMs` elapses.
+ */
+export const waitForDomSettle = async (
+  options: { quietMs?: number; timeoutMs?: number } = {},
+): Promise<DomSettleResult> => {
+  if (typeof window === "undefined" || typeof document === "undefined") {
+    return { settleMs: 0, timedOut: false };
+  }
+
+  const quietMs = options.quietMs ?? DOM_SETTLE_QUIET_MS;
+  const timeoutMs = options.timeoutMs ?? DOM_SETTLE_TIMEOUT_MS;
+  const startedAt = performance.now();
+  let lastMutationAt = startedAt;
+  let lastUrl = window.location.href;
+  let lastUrlChangeAt = startedAt;
+
+  const observer =
+    typeof MutationObserver === "undefined"
+      ? null
+      : new MutationObserver((records) => {
+        if (records.some(isRelevantMutation)) lastMutationAt = performance.now();
+      });
+  observer?.observe(document.documentElement, {
+    childList: true,
+    subtree: true,
+    attributes: true,
+    characterData: true,
+  });
+
+  try {
+    return await new Promise<DomSettleResult>((resolve) => {
+      const check = () => {
+        const now = performance.now();
+        if (window.location.href !== lastUrl) {
+          lastUrl = window.location.href;
+          lastUrlChangeAt = now;
+        }
+
+        const settled = isDomSettled(
+          {
+            readyState: document.readyState,
+            pendingResources: countPendingResources(),
+            msSinceLastMutation: now - lastMutationAt,
+            msSinceUrlChange: now - lastUrlChangeAt,
+          },
+          quietMs,
+        );
+
+        if (settled || now - startedAt >= timeoutMs) {
+          resolve({ settleMs: Math.round(now - startedAt), timedOut: !settled });
+          return;
+        }
+        window.setTimeout(check, DOM_SETTLE_POLL_MS);
+      };
+      check();
+    });
+  } finally {
+    observer?.disconnect();
+  }
+};
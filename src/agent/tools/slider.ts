@@ -0,0 +1,226 @@
+import { isInstanceOf, getFrameOffset } from "../context/domTraversal";
+import { MAX_SLIDER_KEY_PRESSES, SLIDER_STEP_WAIT_MS } from "./constants";
+import { dispatchKeyCombo } from "./keyboard";
+import { dispatchMouseEvent } from "./pointer";
+
+export interface StepConstraints {
+  min?: number;
+  max?: number;
+  /** `"any"` (or a non-positive step) disables snapping. */
+  step?: number | "any";
+}
+
+export type SetValueAttempt =
+  | { ok: true; value: string }
+  | { ok: false; reason: "invalid_value" | "ambiguous_value" | "not_adjustable" | "value_not_reached"; value?: string };
+
+const decimalPlaces = (value: number): number => {
+  const [, fraction = ""] = String(value).split(".");
+  return fraction.length;
+};
+
+/** Clamp into [min, max] and snap to the nearest step from `min`, as browsers do. */
+export const snapToStep = (value: number, { min, max, step }: StepConstraints): number => {
+  let result = value;
+  const base = min ?? 0;
+
+  if (typeof step === "number" && step > 0) {
+    const precision = Math.max(decimalPlaces(step), decimalPlaces(base));
+    const round = (n: number) => Number(n.toFixed(precision));
+    result = round(base + Math.round((result - base) / step) * step);
+    if (max !== undefined && result > max) result = round(base + Math.floor((max - base) / step) * step);
+    if (min !== undefined && result < min) result = round(base + Math.ceil((min - base) / step) * step);
+  }
+
+  if (max !== undefined) result = Math.min(max, result);
+  if (min !== undefined) result = Math.max(min, result);
+  return result;
+};
+
+const parseNumberAttribute = (value: string | null): number | undefined => {
+  if (value === null || value.trim() === "") return undefined;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : undefined;
+};
+
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// ── Native inputs ───────────────────────────────────────────────────
+
+const setNativeNumericValue = (element: HTMLInputElement, target: number): string => {
+  const isRange = element.type === "range";
+  const stepAttribute = element.getAttribute("step");
+  const value = snapToStep(target, {
+    min: parseNumberAttribute(element.getAttribute("min")) ?? (isRange ? 0 : undefined),
+    max: parseNumberAttribute(element.getAttribute("max")) ?? (isRange ? 100 : undefined),
+    step: stepAttribute?.trim().toLowerCase() === "any" ? "any" : parseNumberAttribute(stepAttribute) ?? 1,
+  });
+
+  const descriptor = Object.getOwnPropertyDescriptor(HTMLInputElement.prototype, "value");
+  if (descriptor?.set) descriptor.set.call(element, String(value));
+  else element.value = String(value);
+
+  element.dispatchEvent(new Event("input", { bubbles: true }));
+  element.dispatchEvent(new Event("change", { bubbles: true }));
+  return element.value;
+};
+
+// ── ARIA sliders / spinbuttons ──────────────────────────────────────
+
+const readAriaValue = (element: HTMLElement): number | undefined =>
+  parseNumberAttribute(element.getAttribute("aria-valuenow"));
+
+const pressKey = async (element: HTMLElement, key: string) => {
+  dispatchKeyCombo(element, { key, modifiers: [] });
+  await wait(SLIDER_STEP_WAIT_MS);
+};
+
+/**
+ * Step with arrow keys, switching to Page keys while the remaining distance
+ * is larger than a page. Stops when a key press no longer moves the value.
+ */
+const driveWithKeys = async (element: HTMLElement, target: number, min?: number, max?: number) => {
+  const vertical =
+    element.getAttribute("role") === "spinbutton" ||
+    element.getAttribute("aria-orientation") === "vertical";
+  const increaseKey = vertical ? "ArrowUp" : "ArrowRight";
+  const decreaseKey = vertical ? "ArrowDown" : "ArrowLeft";
+
+  element.focus();
+  if (target === min || target === max) {
+    await pressKey(element, target === min ? "Home" : "End");
+    if (readAriaValue(element) === target) return;
+  }
+
+  let pageSize: number | undefined;
+  for (let presses = 0; presses < MAX_SLIDER_KEY_PRESSES; presses += 1) {
+    const current = readAriaValue(element);
+    if (current === undefined || current === target) return;
+
+    const increase = target > current;
+    const remaining = Math.abs(target - current);
+    const usePage = pageSize === undefined ? remaining > 10 : remaining >= pageSize;
+    const key = usePage
+      ? (increase ? "PageUp" : "PageDown")
+      : (increase ? increaseKey : decreaseKey);
+
+    await pressKey(element, key);
+    const next = readAriaValue(element);
+    if (next === undefined || next === current) {
+      if (usePage) {
+        pageSize = Number.POSITIVE_INFINITY;
+        continue;
+      }
+      return;
+    }
+    if (usePage) pageSize = Math.abs(next - current);
+    // Overshot with an arrow step: the widget's step cannot land on target.
+    if (!usePage && (increase ? next > target : next < target)) return;
+  }
+};
+
+/** Custom sliders often mark only the thumb; drag across its track instead. */
+const getSliderTrack = (element: HTMLElement): HTMLElement => {
+  const rect = element.getBoundingClientRect();
+  const parent = element.parentElement;
+  return Math.max(rect.width, rect.height) < 40 && parent ? parent : element;
+};
+
+const dragToValue = async (element: HTMLElement, target: number, min: number, max: number) => {
+  const track = getSliderTrack(element);
+  const rect = track.getBoundingClientRect();
+  const ratio = max === min ? 0 : (target - min) / (max - min);
+  const vertical = element.getAttribute("aria-orientation") === "vertical";
+  const offset = getFrameOffset(track);
+  const x = window.scrollX + offset.x + (vertical ? rect.left + rect.width / 2 : rect.left + ratio * rect.width);
+  const y = window.scrollY + offset.y + (vertical ? rect.bottom - ratio * rect.height : rect.top + rect.height / 2);
+
+  const init = { button: 0, buttons: 1 };
+  dispatchMouseEvent(track, "pointerdown", x, y, init);
+  dispatchMouseEvent(track, "mousedown", x, y, init);
+  dispatchMouseEvent(track, "pointermove", x, y, init);
+  dispatchMouseEvent(track, "mousemove", x, y, init);
+  dispatchMouseEvent(track, "pointerup", x, y, { button: 0, buttons: 0 });
+  dispatchMouseEvent(track, "mouseup", x, y, { button: 0, buttons: 0 });
+  await wait(SLIDER_STEP_WAIT_MS);
+};
+
+const setAriaValue = async (element: HTMLElement, requested: number): Promise<SetValueAttempt> => {
+  const min = parseNumberAttribute(element.getAttribute("aria-valuemin"));
+  const max = parseNumberAttribute(element.getAttribute("aria-valuemax"));
+  const target = snapToStep(requested, { min, max });
+
+  await driveWithKeys(element, target, min, max);
+
+  if (readAriaValue(element) !== target && min !== undefined && max !== undefined) {
+    await dragToValue(element, target, min, max);
+    await driveWithKeys(element, target, min, max);
+  }
+
+  const final = readAriaValue(element);
+  const value = element.getAttribute("aria-valuetext") || (final === undefined ? undefined : String(final));
+  return final === target
+    ? { ok: true, value: value ?? String(target) }
+    : { ok: false, reason: "value_not_reached", value };
+};
+
+// ── Number parsing ──────────────────────────────────────────────────
+
+const THOUSANDS_GROUPED = {
+  ".": /^\d{1,3}(\.\d{3})+$/,
+  ",": /^\d{1,3}(,\d{3})+$/,
+};
+
+/**
+ * Parse "1.234,5", "1,234.5", "0,5" or "2.5". With both separators the
+ * last one is the decimal point. A single separator followed by exactly
+ * three digits ("1,234", "1.000") may be either, so it is "ambiguous";
+ * anything else unparseable is null.
+ */
+export const parseLocalizedNumber = (raw: string): number | "ambiguous" | null => {
+  const trimmed = raw.trim().replace(/\s+/g, "");
+  const match = trimmed.match(/^([+-]?)([\d.,]+)$/);
+  if (!match) return null;
+  const [, sign, digits] = match;
+
+  const decimalAt = Math.max(digits.lastIndexOf("."), digits.lastIndexOf(","));
+  if (decimalAt < 0) return Number(`${sign}${digits}`);
+
+  const decimal = digits[decimalAt] as "." | ",";
+  const thousands = decimal === "." ? "," : ".";
+  let integer = digits.slice(0, decimalAt);
+  let fraction = digits.slice(decimalAt + 1);
+
+  if (integer.includes(decimal)) {
+    // "1.234.567": the repeated separator only groups thousands.
+    if (integer.includes(thousands) || !THOUSANDS_GROUPED[decimal].test(digits)) return null;
+    integer = digits.split(decimal).join("");
+    fraction = "";
+  } else if (integer.includes(thousands)) {
+    if (!THOUSANDS_GROUPED[thousands].test(integer)) return null;
+    integer = integer.split(thousands).join("");
+  } else if (fraction.length === 3 && /^[1-9]\d{0,2}$/.test(integer)) {
+    return "ambiguous";
+  }
+
+  if (!/^\d*$/.test(integer) || !/^\d*$/.test(fraction) || (!integer && !fraction)) return null;
+  return Number(`${sign}${integer || "0"}.${fraction || "0"}`);
+};
+
+// ── Entry point ─────────────────────────────────────────────────────
+
+export const setElementValue = async (element: HTMLElement, raw: string): Promise<SetValueAttempt> => {
+  const requested = parseLocalizedNumber(raw);
+  if (requested === "ambiguous") return { ok: false, reason: "ambiguous_value" };
+  if (requested === null || !Number.isFinite(requested)) return { ok: false, reason: "invalid_value" };
+
+  if (isInstanceOf(element, HTMLInputElement) && (element.type === "range" || element.type === "number")) {
+    if (element.readOnly) return { ok: false, reason: "not_adjustable" };
+    return { ok: true, value: setNativeNumericValue(element, requested) };
+  }
+
+  const role = element.getAttribute("role");
+  if (role === "slider" || role === "spinbutton") return setAriaValue(element, requested);
+
+  return { ok: false, reason: "not_adjustable" };
+};
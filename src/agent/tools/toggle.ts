@@ -0,0 +1,85 @@
+import { isElementChecked, isElementDisabled } from "../context";
+import { isVisible } from "../context/helpers";
+import { isInstanceOf } from "../context/domTraversal";
+import { CLICK_SETTLE_TIMEOUT_MS } from "./constants";
+import { dispatchClick } from "./pointer";
+import { getElementCenter } from "./cursor";
+import { waitForDomSettle, type DomSettleResult } from "./settle";
+
+export type ToggleAttempt =
+  | { ok: true; changed: boolean; settle?: DomSettleResult }
+  | { ok: false; reason: "not_checkable" | "disabled" | "radio_uncheck" | "state_unchanged"; settle?: DomSettleResult };
+
+const CHECKABLE_SELECTOR = [
+  'input[type="checkbox"]',
+  'input[type="radio"]',
+  '[role="checkbox"]',
+  '[role="switch"]',
+  '[role="radio"]',
+  '[role="menuitemcheckbox"]',
+  '[role="menuitemradio"]',
+].join(", ");
+
+/**
+ * The element holding the checked state. Agents often target the label or a
+ * styled wrapper instead of the (visually hidden) input itself.
+ */
+export const resolveCheckable = (element: HTMLElement): HTMLElement | null => {
+  if (isElementChecked(element) !== undefined) return element;
+  if (isInstanceOf(element, HTMLLabelElement) && isInstanceOf(element.control, HTMLElement)) {
+    return isElementChecked(element.control) !== undefined ? element.control : null;
+  }
+  const nested = element.querySelectorAll<HTMLElement>(CHECKABLE_SELECTOR);
+  return nested.length === 1 ? nested[0] : null;
+};
+
+const isRadio = (element: HTMLElement): boolean =>
+  (isInstanceOf(element, HTMLInputElement) && element.type === "radio") ||
+  element.getAttribute("role") === "radio" ||
+  element.getAttribute("role") === "menuitemradio";
+
+/** Custom-styled inputs: hidden outright or shrunk to a 1px "sr-only" box. */
+const isVisuallyHidden = (element: HTMLElement): boolean => {
+  if (!isVisible(element)) return true;
+  const rect = element.getBoundingClientRect();
+  return rect.width <= 1 || rect.height <= 1;
+};
+
+/**
+ * Where to click. The target itself or its label toggle natively; a wrapper
+ * around the checkable does not, so the checkable is clicked instead, or its
+ * label when the checkable is visually hidden.
+ */
+const getToggleClickTarget = (element: HTMLElement, checkable: HTMLElement): HTMLElement => {
+  if (element === checkable) return element;
+  if (isInstanceOf(element, HTMLLabelElement) && element.control === checkable) return element;
+  if (!isVisuallyHidden(checkable)) return checkable;
+  const label = isInstanceOf(checkable, HTMLInputElement) ? checkable.labels?.[0] : undefined;
+  return label ?? checkable;
+};
+
+/**
+ * Click only when the checkable is not already in the desired state, then
+ * verify the state after the page settles.
+ */
+export const setCheckedState = async (
+  element: HTMLElement,
+  desired: boolean,
+  x: number,
+  y: number,
+): Promise<ToggleAttempt> => {
+  const checkable = resolveCheckable(element);
+  if (!checkable) return { ok: false, reason: "not_checkable" };
+  if (isElementChecked(checkable) === desired) return { ok: true, changed: false };
+  if (isElementDisabled(checkable) || checkable.matches(":disabled")) return { ok: false, reason: "disabled" };
+  if (!desired && isRadio(checkable)) return { ok: false, reason: "radio_uncheck" };
+
+  const clickTarget = getToggleClickTarget(element, checkable);
+  const point = clickTarget === element ? { x, y } : getElementCenter(clickTarget);
+  dispatchClick(clickTarget, point.x, point.y);
+  const settle = await waitForDomSettle({ timeoutMs: CLICK_SETTLE_TIMEOUT_MS });
+
+  return isElementChecked(checkable) === desired
+    ? { ok: true, changed: true, settle }
+    : { ok: false, reason: "state_unchanged", settle };
+};
@@ -1,4 +1,23 @@
-type InteractAction = "move" | "click" | "type" | "submit";
+type InteractAction =
+  | "move"
+  | "click"
+  | "type"
+  | "submit"
+  | "select"
+  | "press"
+  | "hover"
+  | "setValue"
+  | "check"
+  | "uncheck"
+  | "doubleClick"
+  | "contextClick"
+  | "longPress";
+
+export type KeyModifier = "ctrl" | "shift" | "alt" | "meta";
+
+export type TypingMode = "instant" | "realistic";
+
+export type CaretPosition = "start" | "end";
 
 export interface InteractToolCall {
   tool: "interact";
@@ -8,6 +27,23 @@ export interface InteractToolCall {
   text?: string;
   x?: number;
   y?: number;
+  /** `select`: option value, visible label or zero-based index. `setValue`: number to set. */
+  value?: string;
+  label?: string;
+  index?: number;
+  /** `press`: key name or combo such as `"Enter"` or `"Ctrl+K"`. */
+  key?: string;
+  modifiers?: string[];
+  /** `type`: `"realistic"` sends per-character key and input events. */
+  typing?: TypingMode;
+  /** `type`: milliseconds between characters in realistic mode. */
+  delay?: number;
+  /** `type`: keep the existing text instead of replacing it. */
+  append?: boolean;
+  /** `type`: insert at the start or end instead of replacing. */
+  caret?: CaretPosition;
+  /** `type`: insert right after this existing text. */
+  caretAfter?: string;
 }
 
 export interface NavigateToolCall {
@@ -19,17 +55,100 @@ export interface GetPageContextToolCall {
   tool: "getPageContext";
 }
 
+export type ScrollDirection = "up" | "down" | "top" | "bottom";
+export type ScrollAmount = "page" | "half";
+
+/**
+ * Without `direction`, centers the target element. With `direction`, scrolls
+ * the `container` (or the target, or the window) by a page, half page, or to
+ * the top / bottom.
+ */
 export interface ScrollToolCall {
   tool: "scroll";
   id?: number;
   selector?: string;
+  direction?: ScrollDirection;
+  amount?: ScrollAmount;
+  /** Element id of the scrolling region (sidebar, modal body, list). */
+  container?: number;
+}
+
+export type WaitCondition = "visible" | "hidden" | "text" | "url" | "attribute";
+
+export interface WaitForToolCall {
+  tool: "waitFor";
+  condition: WaitCondition;
+  id?: number;
+  selector?: string;
+  /** `text`: text that must appear (inside the target when given). */
+  text?: string;
+  /** `url`: substring or `/regex/` the page URL must match. */
+  url?: string;
+  /** `attribute`: attribute name and, optionally, its expected value. */
+  attribute?: string;
+  value?: string;
+  /** Milliseconds before giving up. */
+  timeout?: number;
+}
+
+export interface LoadMoreToolCall {
+  tool: "loadMore";
+  /**
+   * Element id of the list / feed region. Load-more and next-page controls
+   * are only clicked inside it; without it the page is just scrolled.
+   */
+  container?: number;
+  /** Load rounds to attempt before stopping. */
+  maxIterations?: number;
+}
+
+export interface FindToolCall {
+  tool: "find";
+  query: string;
+  /** Maximum number of matches to return. */
+  limit?: number;
+}
+
+/** Read an element's full text, a heading's section, or the main content. */
+export interface ReadElementToolCall {
+  tool: "readElement";
+  id?: number;
+  /** Heading text whose section should be read. */
+  heading?: string;
+  /** 1-based page of long content. */
+  page?: number;
+}
+
+/** Read a table or ARIA grid as header → cell rows. */
+export interface ReadTableToolCall {
+  tool: "readTable";
+  id: number;
+  /** 1-based page of rows for long tables. */
+  page?: number;
+}
+
+/** Text, option label(s), checkbox state or date, keyed by field label or name. */
+export type FillFormValue = string | number | boolean | string[];
+
+/** Fill several fields of one form in a single call. */
+export interface FillFormToolCall {
+  tool: "fillForm";
+  /** Element id of the form, or of any element inside it. */
+  id: number;
+  values: Record<string, FillFormValue>;
 }
 
 export type AgentToolCall =
   | InteractToolCall
   | NavigateToolCall
   | GetPageContextToolCall
-  | ScrollToolCall;
+  | ScrollToolCall
+  | WaitForToolCall
+  | LoadMoreToolCall
+  | FindToolCall
+  | ReadElementToolCall
+  | ReadTableToolCall
+  | FillFormToolCall;
 
 export interface ParsedAgentResponse {
   reply: string;
@@ -45,6 +164,109 @@ export interface ToolCallResult {
   result: string;
 }
 
+export type ToolFailureReason =
+  | "target_not_found"
+  | "not_editable"
+  | "no_form"
+  | "disabled"
+  | "navigation_failed"
+  | "option_not_found"
+  | "not_selectable"
+  | "invalid_key"
+  | "text_not_found"
+  | "invalid_value"
+  | "ambiguous_value"
+  | "not_adjustable"
+  | "value_not_reached"
+  | "not_checkable"
+  | "radio_uncheck"
+  | "state_unchanged"
+  | "wait_timeout"
+  | "no_more_content"
+  | "no_control"
+  | "no_match"
+  | "page_out_of_range"
+  | "partial_fill"
+  | "validation_failed"
+  | "stale_id"
+  | "frame_unavailable"
+  | "frame_timeout";
+
+/**
+ * Structured outcome of a tool execution, serialized as JSON into the
+ * `tool_results` payload so the agent can react to real failures.
+ */
+export interface ToolOutcome {
+  status: "ok" | "failed";
+  action: string;
+  reason?: ToolFailureReason;
+  /** Descriptor of the resolved element, e.g. `[12] Button: "Gönder"`. */
+  target?: string;
+  /** Element hit-tested at the requested coordinates. */
+  hit?: string;
+  /** State changes observed on the target / page after the action. */
+  changes?: string[];
+  message?: string;
+  /** Label of the option chosen by `select`. */
+  selected?: string;
+  /** Final value of a slider / spinbutton after `setValue`. */
+  value?: string;
+  /** Normalized key combo sent by `press`. */
+  key?: string;
+  /** Element holding focus after the action. */
+  focused?: string;
+  /** Context lines of elements that appeared because of the action. */
+  revealed?: string[];
+  /** Scroll position of the scrolled region after a directional scroll. */
+  scroll_top?: number;
+  scroll_max?: number;
+  /** `waitFor`: whether the condition held and how long it took. */
+  met?: boolean;
+  elapsed_ms?: number;
+  /** `loadMore`: rounds that loaded content and text of the added items. */
+  iterations?: number;
+  new_items?: string[];
+  /** `loadMore`: next page that needs a full page load (use `navigate`). */
+  next_page_url?: string;
+  /** `find`: matching elements with IDs, context and section heading. */
+  matches?: string[];
+  /** `readElement`: structured text of the requested page. */
+  content?: string;
+  page?: number;
+  total_pages?: number;
+  /** `readTable`: column headers and `header: value` row lines. */
+  columns?: string[];
+  rows?: string[];
+  total_rows?: number;
+  /** `fillForm`: one line per requested field, and the keys no field matched. */
+  fields?: string[];
+  unmatched?: string[];
+  /** `submit`: field and alert errors shown after submitting, and other live-region text. */
+  validation?: string[];
+  announcements?: string[];
+  /** Time spent waiting for the DOM to settle after the action. */
+  settle_ms?: number;
+  settle_timed_out?: boolean;
+  url?: string;
+  page_context?: string;
+}
+
+/** JSON-schema-like description of a custom tool's arguments. */
+export type CustomToolArgsSchema = Record<string, unknown>;
+
+export interface CustomToolDefinition {
+  description: string;
+  argsSchema?: CustomToolArgsSchema;
+  /** Return value is stringified (JSON for non-strings) into the tool result. */
+  handler: (args: Record<string, unknown>) => unknown | Promise<unknown>;
+}
+
+export interface CustomToolSchema {
+  name: string;
+  description: string;
+  args_schema: CustomToolArgsSchema;
+}
+
 export interface PendingAgentResume {
   sessionId: string;
   projectId: string;
@@ -65,6 +287,8 @@ interface ResolvedTarget {
   element?: HTMLElement;
   x: number;
   y: number;
+  /** Element was hit-tested from raw coordinates; keep the exact point. */
+  fromPoint?: boolean;
 }
 
 export type { InteractAction, ResolvedTarget };
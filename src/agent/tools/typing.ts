@@ -0,0 +1,377 @@
+import { isInstanceOf, getElementWindow } from "../context/domTraversal";
+import {
+  REALISTIC_TYPING_DELAY_MS,
+  MAX_REALISTIC_TYPING_DELAY_MS,
+} from "./constants";
+import { createKeyboardEvent } from "./keyboard";
+import type { CaretPosition, TypingMode } from "./types";
+
+export interface TypingOptions {
+  mode: TypingMode;
+  /** Pause between characters in realistic mode. */
+  delayMs: number;
+  /** Keep existing text and type after it instead of replacing it. */
+  append: boolean;
+}
+
+export interface TypingRequest {
+  typing?: TypingMode;
+  delay?: number;
+  append?: boolean;
+  caret?: CaretPosition;
+  caretAfter?: string;
+}
+
+export type TypeAttempt =
+  | { ok: true }
+  | { ok: false; reason: "not_editable" | "text_not_found" };
+
+/** Elements (or an ancestor) opt into realistic typing with this attribute. */
+export const TYPING_MODE_ATTRIBUTE = "data-bulut-typing";
+export const TYPING_DELAY_ATTRIBUTE = "data-bulut-typing-delay";
+
+/**
+ * Per-call options win over the element's data attributes; everything
+ * defaults to instant replacement.
+ */
+export const resolveTypingOptions = (
+  request: TypingRequest,
+  attributes: { mode?: string | null; delay?: string | null } = {},
+): TypingOptions => {
+  const attributeMode = attributes.mode === "realistic" || attributes.mode === "instant"
+    ? attributes.mode
+    : undefined;
+  const attributeDelay = Number.parseInt(attributes.delay ?? "", 10);
+  const rawDelay =
+    request.delay ?? (Number.isFinite(attributeDelay) ? attributeDelay : REALISTIC_TYPING_DELAY_MS);
+
+  return {
+    mode: request.typing ?? attributeMode ?? "instant",
+    delayMs: Math.min(MAX_REALISTIC_TYPING_DELAY_MS, Math.max(0, rawDelay)),
+    append: request.append === true,
+  };
+};
+
+const readTypingAttributes = (element: HTMLElement) => {
+  const modeHost = element.closest(`[${TYPING_MODE_ATTRIBUTE}]`);
+  const delayHost = element.closest(`[${TYPING_DELAY_ATTRIBUTE}]`);
+  return {
+    mode: modeHost?.getAttribute(TYPING_MODE_ATTRIBUTE),
+    delay: delayHost?.getAttribute(TYPING_DELAY_ATTRIBUTE),
+  };
+};
+
+// ── Native value helpers ────────────────────────────────────────────
+
+type TextField = HTMLInputElement | HTMLTextAreaElement;
+
+/** Bypass framework value trackers (React) by using the prototype setter. */
+const setNativeValue = (element: TextField, text: string) => {
+  const prototype =
+    isInstanceOf(element, HTMLTextAreaElement)
+      ? HTMLTextAreaElement.prototype
+      : HTMLInputElement.prototype;
+  const descriptor = Object.getOwnPropertyDescriptor(prototype, "value");
+  if (descriptor?.set) descriptor.set.call(element, text);
+  else element.value = text;
+};
+
+const setNativeInputLikeValue = (element: TextField, text: string) => {
+  setNativeValue(element, text);
+  element.defaultValue = text;
+  element.setAttribute("value", text);
+};
+
+/** email / number inputs throw on selection APIs. */
+const setCaret = (element: TextField, position: number) => {
+  try {
+    element.setSelectionRange(position, position);
+  } catch {
+    // selection unsupported for this input type
+  }
+};
+
+const dispatchInputEvent = (
+  element: HTMLElement,
+  type: "beforeinput" | "input",
+  inputType: string,
+  data: string | null,
+): boolean =>
+  element.dispatchEvent(
+    new InputEvent(type, {
+      bubbles: true,
+      cancelable: type === "beforeinput",
+      composed: true,
+      inputType,
+      data,
+    }),
+  );
+
+const wait = (ms: number) =>
+  ms > 0 ? new Promise((resolve) => setTimeout(resolve, ms)) : Promise.resolve();
+
+// ── Caret placement ─────────────────────────────────────────────────
+
+export interface TextBoundary {
+  /** Index of the segment (text node) holding the boundary. */
+  index: number;
+  offset: number;
+}
+
+/**
+ * Find the position right after `needle` in text split across segments.
+ * Exact matches win; otherwise a Turkish-aware case-insensitive match.
+ */
+export const findTextBoundary = (segments: string[], needle: string): TextBoundary | null => {
+  if (!needle) return null;
+  const joined = segments.join("");
+  let start = joined.indexOf(needle);
+  if (start < 0) start = joined.toLocaleLowerCase("tr").indexOf(needle.toLocaleLowerCase("tr"));
+  if (start < 0) return null;
+
+  let remaining = start + needle.length;
+  for (let index = 0; index < segments.length; index += 1) {
+    if (remaining <= segments[index].length) return { index, offset: remaining };
+    remaining -= segments[index].length;
+  }
+  return null;
+};
+
+/**
+ * Where typed text goes inside a field: a `[start, end)` range to replace,
+ * or null when `caretAfter` text is missing.
+ */
+const resolveFieldRange = (
+  value: string,
+  request: TypingRequest,
+  append: boolean,
+): [number, number] | null => {
+  if (request.caretAfter) {
+    const boundary = findTextBoundary([value], request.caretAfter);
+    return boundary ? [boundary.offset, boundary.offset] : null;
+  }
+  if (request.caret === "start") return [0, 0];
+  if (request.caret === "end" || append) return [value.length, value.length];
+  return [0, value.length];
+};
+
+// ── Realistic typing ────────────────────────────────────────────────
+
+/** Fallback caret for email / number inputs, which hide their selection. */
+interface FieldCaret {
+  position: number;
+}
+
+/**
+ * The field's live selection. Masked inputs (phone, IBAN) reformat the
+ * value and move the caret in their input handlers, so it is read again
+ * before every character. Null where the input type hides it.
+ */
+const readSelection = (element: TextField): [number, number] | null => {
+  try {
+    const { selectionStart, selectionEnd } = element;
+    return selectionStart === null || selectionEnd === null ? null : [selectionStart, selectionEnd];
+  } catch {
+    return null;
+  }
+};
+
+const clearRangeRealistically = (element: TextField, [start, end]: [number, number]) => {
+  if (start === end) return;
+  try {
+    element.setSelectionRange(start, end);
+  } catch {
+    // selection unsupported for this input type
+  }
+  if (!element.dispatchEvent(createKeyboardEvent("keydown", "Backspace", []))) return;
+  if (dispatchInputEvent(element, "beforeinput", "deleteContentBackward", null)) {
+    setNativeValue(element, element.value.slice(0, start) + element.value.slice(end));
+    dispatchInputEvent(element, "input", "deleteContentBackward", null);
+  }
+  element.dispatchEvent(createKeyboardEvent("keyup", "Backspace", []));
+};
+
+const typeCharacter = (element: TextField, char: string, caret: FieldCaret) => {
+  const keydownAccepted = element.dispatchEvent(createKeyboardEvent("keydown", char, []));
+  if (keydownAccepted) {
+    element.dispatchEvent(createKeyboardEvent("keypress", char, []));
+    if (dispatchInputEvent(element, "beforeinput", "insertText", char)) {
+      const { value } = element;
+      const tracked = Math.min(caret.position, value.length);
+      const [start, end] = readSelection(element) ?? [tracked, tracked];
+      setNativeValue(element, value.slice(0, start) + char + value.slice(end));
+      caret.position = start + char.length;
+      setCaret(element, caret.position);
+      dispatchInputEvent(element, "input", "insertText", char);
+    }
+  }
+  element.dispatchEvent(createKeyboardEvent("keyup", char, []));
+};
+
+const typeFieldRealistically = async (
+  element: TextField,
+  text: string,
+  range: [number, number],
+  options: TypingOptions,
+) => {
+  clearRangeRealistically(element, range);
+  const caret: FieldCaret = { position: Math.min(range[0], element.value.length) };
+  setCaret(element, caret.position);
+
+  for (const char of Array.from(text)) {
+    typeCharacter(element, char, caret);
+    await wait(options.delayMs);
+  }
+  element.dispatchEvent(new Event("change", { bubbles: true }));
+};
+
+// ── Rich-text editors ───────────────────────────────────────────────
+
+/**
+ * The editing host owns the editor model (ProseMirror, Slate, Lexical,
+ * Quill); targets may point at a paragraph inside it.
+ */
+const getEditingHost = (element: HTMLElement): HTMLElement =>
+  element.closest<HTMLElement>('[contenteditable]:not([contenteditable="false"])') ?? element;
+
+// Editors inside same-origin frames need their own document's ranges and selection.
+
+const collectTextNodes = (root: HTMLElement): Text[] => {
+  const walker = root.ownerDocument.createTreeWalker(root, NodeFilter.SHOW_TEXT);
+  const nodes: Text[] = [];
+  while (walker.nextNode()) nodes.push(walker.currentNode as Text);
+  return nodes;
+};
+
+const resolveEditorRange = (
+  host: HTMLElement,
+  request: TypingRequest,
+  append: boolean,
+): Range | null => {
+  const range = host.ownerDocument.createRange();
+  range.selectNodeContents(host);
+
+  if (request.caretAfter) {
+    const nodes = collectTextNodes(host);
+    const boundary = findTextBoundary(nodes.map((node) => node.data), request.caretAfter);
+    if (!boundary) return null;
+    range.setStart(nodes[boundary.index], boundary.offset);
+    range.collapse(true);
+  } else if (request.caret === "start") {
+    range.collapse(true);
+  } else if (request.caret === "end" || append) {
+    range.collapse(false);
+  }
+  return range;
+};
+
+/** Select `range` in its editor's window; false when that window has no selection. */
+const applySelection = (host: HTMLElement, range: Range): boolean => {
+  const selection = getElementWindow(host).getSelection();
+  if (!selection) return false;
+  selection.removeAllRanges();
+  selection.addRange(range);
+  return selection.rangeCount > 0;
+};
+
+/**
+ * Insert at the current selection the way the browser would, so editors
+ * update their own model. `execCommand` produces native beforeinput/input
+ * events; when unavailable, synthesize them and edit the range ourselves
+ * unless the editor cancelled beforeinput and handled it. False when the
+ * editor's window has no selection to insert at.
+ */
+const insertIntoEditor = (host: HTMLElement, text: string): boolean => {
+  const { ownerDocument } = host;
+  const selection = getElementWindow(host).getSelection();
+  const range = selection && selection.rangeCount > 0 ? selection.getRangeAt(0) : null;
+  if (!range) return false;
+  if (!text && range.collapsed) return true;
+
+  const command = text ? "insertText" : "delete";
+  try {
+    if (ownerDocument.execCommand(command, false, text)) return true;
+  } catch {
+    // execCommand unsupported; fall through to synthetic input
+  }
+
+  const inputType = text ? "insertText" : "deleteContentBackward";
+  const data = text || null;
+  if (!dispatchInputEvent(host, "beforeinput", inputType, data)) return true;
+
+  range.deleteContents();
+  if (text) {
+    const node = ownerDocument.createTextNode(text);
+    range.insertNode(node);
+    range.setStartAfter(node);
+    range.collapse(true);
+    applySelection(host, range);
+  }
+  dispatchInputEvent(host, "input", inputType, data);
+  return true;
+};
+
+/** False when the text could not be placed (no selection in the editor's window). */
+const typeIntoEditor = async (
+  host: HTMLElement,
+  text: string,
+  range: Range,
+  options: TypingOptions,
+): Promise<boolean> => {
+  host.focus();
+  if (!applySelection(host, range)) return false;
+
+  if (options.mode !== "realistic") return insertIntoEditor(host, text);
+
+  if (!range.collapsed && !insertIntoEditor(host, "")) return false;
+  for (const char of Array.from(text)) {
+    const keydownAccepted = host.dispatchEvent(createKeyboardEvent("keydown", char, []));
+    if (keydownAccepted) {
+      host.dispatchEvent(createKeyboardEvent("keypress", char, []));
+      if (!insertIntoEditor(host, char)) return false;
+    }
+    host.dispatchEvent(createKeyboardEvent("keyup", char, []));
+    await wait(options.delayMs);
+  }
+  return true;
+};
+
+// ── Entry point ─────────────────────────────────────────────────────
+
+/** Type into an input, textarea or rich-text editor at the requested caret. */
+export const typeIntoElement = async (
+  element: HTMLElement,
+  text: string,
+  request: TypingRequest = {},
+): Promise<TypeAttempt> => {
+  const options = resolveTypingOptions(request, readTypingAttributes(element));
+
+  if (isInstanceOf(element, HTMLInputElement) || isInstanceOf(element, HTMLTextAreaElement)) {
+    if (element.readOnly) return { ok: false, reason: "not_editable" };
+    const range = resolveFieldRange(element.value, request, options.append);
+    if (!range) return { ok: false, reason: "text_not_found" };
+    element.focus();
+
+    if (options.mode === "realistic") {
+      await typeFieldRealistically(element, text, range, options);
+      return { ok: true };
+    }
+
+    const { value } = element;
+    setNativeInputLikeValue(element, value.slice(0, range[0]) + text + value.slice(range[1]));
+    setCaret(element, range[0] + text.length);
+    element.dispatchEvent(new Event("input", { bubbles: true }));
+    element.dispatchEvent(new Event("change", { bubbles: true }));
+    return { ok: true };
+  }
+
+  if (element.isContentEditable) {
+    const host = getEditingHost(element);
+    const range = resolveEditorRange(host, request, options.append);
+    if (!range) return { ok: false, reason: "text_not_found" };
+    return (await typeIntoEditor(host, text, range, options)) ? { ok: true } : { ok: false, reason: "not_editable" };
+  }
+
+  console.warn("AuticBot interact: type action requires input, textarea, or contenteditable target.");
+  return { ok: false, reason: "not_editable" };
+};
@@ -0,0 +1,174 @@
+import { isVisible, normalizeWhitespace } from "../context/helpers";
+import { isInstanceOf } from "../context/domTraversal";
+
+// ── Issue formatting (pure) ─────────────────────────────────────────
+
+export type ValidationSource = "constraint" | "aria-invalid" | "nearby" | "form" | "alert";
+
+export interface ValidationIssue {
+  /** `[id] Type: "label"` of the offending field; absent for form-level messages. */
+  field?: string;
+  messages: string[];
+  sources: ValidationSource[];
+}
+
+/** Drop empty and repeated messages (browsers and libraries often echo each other). */
+export const mergeValidationMessages = (messages: string[]): string[] => {
+  const seen = new Set<string>();
+  const merged: string[] = [];
+  for (const message of messages) {
+    const text = normalizeWhitespace(message);
+    const key = text.toLocaleLowerCase("tr").replace(/[.!]+$/, "");
+    if (!text || seen.has(key)) continue;
+    seen.add(key);
+    merged.push(text);
+  }
+  return merged;
+};
+
+export const formatValidationIssue = (issue: ValidationIssue): string => {
+  const text = mergeValidationMessages(issue.messages).join(" / ");
+  const origin = `(${issue.sources.join(", ")})`;
+  return issue.field ? `- ${issue.field}: ${text} ${origin}` : `- ${text} ${origin}`;
+};
+
+// ── Announcements ───────────────────────────────────────────────────
+
+const LIVE_REGION_SELECTOR = "[role='alert'], [role='status'], [aria-live]:not([aria-live='off']), output";
+
+export interface AnnouncementRecorder {
+  /** Text announced by live regions since recording started; alerts separately. */
+  alerts: () => string[];
+  statuses: () => string[];
+  stop: () => void;
+}
+
+const isAlertRegion = (region: Element): boolean =>
+  region.getAttribute("role") === "alert" || region.getAttribute("aria-live") === "assertive";
+
+/**
+ * Watch live regions for text inserted while a submit is processed. Regions
+ * rendered already filled (common for toast libraries) count as well.
+ */
+export const recordAnnouncements = (root: Node = document.body): AnnouncementRecorder => {
+  const changed = new Set<Element>();
+  const observer = new MutationObserver((records) => {
+    for (const record of records) {
+      const node = isInstanceOf(record.target, Element) ? record.target : record.target.parentElement;
+      const region = node?.closest(LIVE_REGION_SELECTOR);
+      if (region) changed.add(region);
+      for (const added of record.addedNodes) {
+        if (!isInstanceOf(added, Element)) continue;
+        if (added.matches(LIVE_REGION_SELECTOR)) changed.add(added);
+        for (const nested of added.querySelectorAll(LIVE_REGION_SELECTOR)) changed.add(nested);
+      }
+    }
+  });
+  observer.observe(root, { childList: true, subtree: true, characterData: true });
+
+  const texts = (alerts: boolean) =>
+    mergeValidationMessages(
+      Array.from(changed)
+        .filter((region) => region.isConnected && isAlertRegion(region) === alerts)
+        .map((region) => (isInstanceOf(region, HTMLElement) ? region.innerText : region.textContent) || ""),
+    );
+
+  return {
+    alerts: () => texts(true),
+    statuses: () => texts(false),
+    stop: () => observer.disconnect(),
+  };
+};
+
+// ── Field errors ────────────────────────────────────────────────────
+
+const ERROR_TEXT_SELECTOR = [
+  "[class*='error' i]", "[class*='invalid' i]", "[class*='feedback' i]",
+  "[id*='error' i]", "[data-error]", ".help-block", "[role='alert']",
+].join(", ");
+
+const readText = (element: Element): string =>
+  normalizeWhitespace((isInstanceOf(element, HTMLElement) ? element.innerText : element.textContent) || "");
+
+const textOfIds = (element: Element, attribute: string): string[] =>
+  (element.getAttribute(attribute) || "")
+    .split(/\s+/)
+    .filter(Boolean)
+    .map((id) => element.ownerDocument.getElementById(id))
+    .filter((node): node is HTMLElement => node !== null)
+    .map(readText);
+
+const isFormField = (element: Element): element is HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement =>
+  isInstanceOf(element, HTMLInputElement) || isInstanceOf(element, HTMLSelectElement) || isInstanceOf(element, HTMLTextAreaElement);
+
+/** Largest ancestor (up to three levels) that wraps this field and no other. */
+const getFieldContainer = (field: Element, fields: Element[]): Element => {
+  let container: Element = field;
+  let current = field.parentElement;
+  for (let depth = 0; current && depth < 3; depth += 1) {
+    if (current.tagName === "FORM" || fields.some((other) => other !== field && current?.contains(other))) break;
+    container = current;
+    current = current.parentElement;
+  }
+  return container;
+};
+
+/** Visible error-looking text in the form, to diff before and after submit. */
+export const captureErrorTexts = (form: Element): Map<Element, string> => {
+  const texts = new Map<Element, string>();
+  for (const element of form.querySelectorAll(ERROR_TEXT_SELECTOR)) {
+    // Only innermost matches; wrappers like `.has-error` repeat their children.
+    if (isFormField(element) || element.querySelector(ERROR_TEXT_SELECTOR)) continue;
+    const text = readText(element);
+    if (text && isVisible(element)) texts.set(element, text);
+  }
+  return texts;
+};
+
+export interface ValidationFieldReport {
+  element?: Element;
+  messages: string[];
+  sources: ValidationSource[];
+}
+
+/**
+ * What the page says is wrong with the form after a submit: native
+ * constraint failures, `aria-invalid` fields with their error descriptions,
+ * and error text that appeared near a field or elsewhere in the form.
+ */
+export const collectValidationFeedback = (
+  form: HTMLFormElement,
+  errorsBefore: Map<Element, string>,
+): ValidationFieldReport[] => {
+  const fields = Array.from(form.elements).filter(isFormField);
+  const reports = new Map<Element | null, ValidationFieldReport>();
+  const add = (element: Element | null, message: string, source: ValidationSource) => {
+    if (!normalizeWhitespace(message)) return;
+    const report = reports.get(element) ?? { element: element ?? undefined, messages: [], sources: [] };
+    report.messages.push(message);
+    if (!report.sources.includes(source)) report.sources.push(source);
+    reports.set(element, report);
+  };
+
+  for (const field of fields) {
+    // With `novalidate` the page validates itself; native state is not the verdict.
+    if (!form.noValidate && field.willValidate && field.matches(":invalid")) {
+      add(field, field.validationMessage, "constraint");
+    }
+    const ariaInvalid = field.getAttribute("aria-invalid");
+    if (ariaInvalid && ariaInvalid !== "false") {
+      const described = [...textOfIds(field, "aria-errormessage"), ...textOfIds(field, "aria-describedby")];
+      if (described.some(Boolean)) described.forEach((text) => add(field, text, "aria-invalid"));
+      else add(field, "Geçersiz değer.", "aria-invalid");
+    }
+  }
+
+  const containers = fields.map((field) => ({ field, container: getFieldContainer(field, fields) }));
+  for (const [element, text] of captureErrorTexts(form)) {
+    if (errorsBefore.get(element) === text) continue;
+    const owner = containers.find(({ container }) => container.contains(element))?.field ?? null;
+    add(owner, text, owner ? "nearby" : "form");
+  }
+
+  return Array.from(reports.values());
+};
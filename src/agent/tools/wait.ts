@@ -0,0 +1,110 @@
+import { isInstanceOf, getElementWindow } from "../context/domTraversal";
+import { WAIT_FOR_POLL_MS } from "./constants";
+import type { WaitForToolCall } from "./types";
+
+export interface WaitResult {
+  met: boolean;
+  elapsedMs: number;
+}
+
+/**
+ * `"/pattern/flags"` is treated as a regular expression; anything else must
+ * appear in the URL as a substring.
+ */
+export const matchesUrlPattern = (url: string, pattern: string): boolean => {
+  const regexMatch = pattern.match(/^\/(.+)\/([a-z]*)$/);
+  if (regexMatch) {
+    try {
+      return new RegExp(regexMatch[1], regexMatch[2]).test(url);
+    } catch {
+      return false;
+    }
+  }
+  return url.includes(pattern);
+};
+
+const normalizeText = (text: string): string =>
+  text.replace(/\s+/g, " ").trim().toLocaleLowerCase("tr");
+
+const isElementVisible = (element: Element): boolean => {
+  if (!element.isConnected) return false;
+  const rect = element.getBoundingClientRect();
+  if (rect.width === 0 && rect.height === 0) return false;
+  const style = getElementWindow(element).getComputedStyle(element);
+  return style.display !== "none" && style.visibility !== "hidden" && style.opacity !== "0";
+};
+
+/**
+ * Build a predicate for the call's condition. The target is re-resolved on
+ * every check since it may not exist yet (or be replaced) while waiting.
+ */
+export const createWaitCheck = (
+  call: WaitForToolCall,
+  resolveElement: () => Element | null,
+): (() => boolean) => {
+  switch (call.condition) {
+    case "visible":
+      return () => {
+        const element = resolveElement();
+        return element !== null && isElementVisible(element);
+      };
+    case "hidden":
+      return () => {
+        const element = resolveElement();
+        return element === null || !isElementVisible(element);
+      };
+    case "text": {
+      const expected = normalizeText(call.text ?? "");
+      return () => {
+        const scope = resolveElement() ?? document.body;
+        const content = isInstanceOf(scope, HTMLElement) ? scope.innerText : scope.textContent;
+        return normalizeText(content ?? "").includes(expected);
+      };
+    }
+    case "url":
+      return () => matchesUrlPattern(window.location.href, call.url ?? "");
+    case "attribute":
+      return () => {
+        const element = resolveElement();
+        if (!element || !call.attribute) return false;
+        const actual = element.getAttribute(call.attribute);
+        return call.value === undefined ? actual !== null : actual === call.value;
+      };
+  }
+};
+
+/**
+ * Resolve as soon as `check` holds. A MutationObserver re-checks on DOM
+ * changes; a slow poll covers URL changes and CSS-only transitions.
+ */
+export const waitForCondition = (check: () => boolean, timeoutMs: number): Promise<WaitResult> => {
+  const startedAt = Date.now();
+  if (check()) return Promise.resolve({ met: true, elapsedMs: 0 });
+
+  return new Promise((resolve) => {
+    let done = false;
+
+    const finish = (met: boolean) => {
+      if (done) return;
+      done = true;
+      observer.disconnect();
+      clearInterval(pollTimer);
+      clearTimeout(timeoutTimer);
+      resolve({ met, elapsedMs: Date.now() - startedAt });
+    };
+
+    const evaluate = () => {
+      if (!done && check()) finish(true);
+    };
+
+    const observer = new MutationObserver(evaluate);
+    observer.observe(document.documentElement, {
+      subtree: true,
+      childList: true,
+      attributes: true,
+      characterData: true,
+    });
+    const pollTimer = setInterval(evaluate, WAIT_FOR_POLL_MS);
+    const timeoutTimer = setTimeout(() => finish(check()), timeoutMs);
+  });
+};
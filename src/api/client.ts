@@ -2,6 +2,8 @@ import {
   savePendingAgentResume,
   clearPendingAgentResume,
   hideAgentCursor,
+  getRegisteredToolSchemas,
+  serializeToolOutcome,
   type PendingAgentResume,
 } from "../agent/tools";
 
@@ -1102,6 +1104,7 @@ export const agentVoiceChatStream = (
             model: config.model,
             page_context: config.pageContext,
             accessibility_mode: config.accessibilityMode,
+            custom_tools: getRegisteredToolSchemas(),
           }));
         };
 
@@ -1337,6 +1340,7 @@ export const agentTextChatStream = (
             model: config.model,
             page_context: config.pageContext,
             accessibility_mode: config.accessibilityMode,
+            custom_tools: getRegisteredToolSchemas(),
           }));
         };
 
@@ -1523,7 +1527,13 @@ export const agentResumeStream = (
     if (tc.tool === "navigate") {
       allResults.push({
         call_id: tc.call_id,
-        result: `Navigasyon tamamlandı. Şu anki sayfa: ${typeof window !== "undefined" ? window.location.href : ""}\nSayfa bağlamı: ${pageContext}`,
+        result: serializeToolOutcome({
+          status: "ok",
+          action: "navigate",
+          message: "Sayfa yeniden yüklendi.",
+          url: typeof window !== "undefined" ? window.location.href : "",
+          page_context: pageContext,
+        }),
       });
     } else {
       allResults.push({
@@ -1575,6 +1585,7 @@ export const agentResumeStream = (
             accumulated_delta: resumeState.accumulatedDelta || "",
             pending_tool_calls: resumeState.pendingToolCalls,
             tool_results: allResults,
+            custom_tools: getRegisteredToolSchemas(),
           }));
         };
 
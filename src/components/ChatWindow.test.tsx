@@ -11,6 +11,7 @@ import {
   shouldAutoListenAfterAudio,
   shouldAcceptVadSpeech,
   scrollElementToBottom,
+  getToolIndicatorMessage,
 } from "./ChatWindow";
 
 describe("resolveAssistantPayload", () => {
@@ -153,3 +154,23 @@ describe("status and timer helpers", () => {
     expect(hasActiveStatus(idleFlags, "Araç çalıştırılıyor")).toBe(true);
   });
 });
+
+describe("tool indicator messages", () => {
+  it("shows the pressed key combo", () => {
+    const indicator = getToolIndicatorMessage({
+      call_id: "c1",
+      tool: "interact",
+      args: { action: "press", key: "k", modifiers: ["ctrl"] },
+    });
+    expect(indicator).toEqual({ text: "Tuş: Ctrl+K", kind: "keyboard" });
+  });
+
+  it("uses the wait indicator for waitFor", () => {
+    const indicator = getToolIndicatorMessage({
+      call_id: "c2",
+      tool: "waitFor",
+      args: { condition: "hidden", selector: ".spinner" },
+    });
+    expect(indicator).toEqual({ text: "Bekleme", kind: "wait" });
+  });
+});
@@ -107,6 +107,8 @@ const resolveToolIconSrc = (kind: Message["toolKind"]): string => {
   if (kind === "navigate") return mapIconContent;
   if (kind === "form") return queueListIconContent;
   if (kind === "interact") return handRaisedIconContent;
+  if (kind === "keyboard") return commandLineIconContent;
+  if (kind === "wait") return arrowPathIconContent;
   if (kind === "unknown") return commandLineIconContent;
   return faceSmileIconContent;
 };
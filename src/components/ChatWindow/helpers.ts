@@ -1,4 +1,4 @@
-import { parseAgentResponse } from "../../agent/tools";
+import { parseAgentResponse, parseKeyCombo, formatKeyCombo } from "../../agent/tools";
 import type { Message, StorageLike } from "./types";
 import { STORAGE_KEY, TIMESTAMP_KEY, SESSION_ID_KEY, HOLD_THRESHOLD_MS } from "./types";
 import type { AgentToolCallInfo } from "../../api/client";
@@ -132,20 +132,45 @@ export const shouldAcceptVadSpeech = (
 
 interface ToolIndicatorMessage {
   text: string;
-  kind: "context" | "cursor" | "scroll" | "navigate" | "form" | "interact" | "unknown";
+  kind: NonNullable<Message["toolKind"]>;
 }
 
 export const getToolIndicatorMessage = (call: AgentToolCallInfo): ToolIndicatorMessage => {
   if (call.tool === "getPageContext") return { text: "Algılama", kind: "context" };
   if (call.tool === "scroll") return { text: "Kaydırma", kind: "scroll" };
+  if (call.tool === "waitFor") return { text: "Bekleme", kind: "wait" };
+  if (call.tool === "find") {
+    const query = typeof call.args.query === "string" ? call.args.query.trim() : "";
+    return { text: query ? `Sayfada Arama: ${query}` : "Sayfada Arama", kind: "context" };
+  }
+  if (call.tool === "readElement") return { text: "Okuma", kind: "context" };
+  if (call.tool === "readTable") return { text: "Tablo Okuma", kind: "context" };
+  if (call.tool === "fillForm") return { text: "Form Doldurma", kind: "form" };
+  if (call.tool === "loadMore") return { text: "Daha Fazla Yükleme", kind: "scroll" };
   if (call.tool === "navigate") {
     const url = typeof call.args.url === "string" ? call.args.url.trim() : "";
     return { text: url ? `Sayfa Geçişi: ${url}` : "Sayfa Geçişi", kind: "navigate" };
   }
   if (call.tool === "interact" && call.args.action === "move") return { text: "Serbest İmleç", kind: "cursor" };
+  if (call.tool === "interact" && call.args.action === "hover") return { text: "Üzerine Gelme", kind: "cursor" };
   if (call.tool === "interact" && call.args.action === "type") return { text: "Form Doldurma", kind: "form" };
   if (call.tool === "interact" && call.args.action === "submit") return { text: "Form Gönderme", kind: "form" };
+  if (call.tool === "interact" && call.args.action === "select") return { text: "Seçim Yapma", kind: "form" };
+  if (call.tool === "interact" && call.args.action === "setValue") return { text: "Değer Ayarlama", kind: "form" };
+  if (call.tool === "interact" && call.args.action === "check") return { text: "İşaretleme", kind: "form" };
+  if (call.tool === "interact" && call.args.action === "uncheck") return { text: "İşaret Kaldırma", kind: "form" };
   if (call.tool === "interact" && call.args.action === "click") return { text: "Tıklama", kind: "interact" };
+  if (call.tool === "interact" && call.args.action === "doubleClick") return { text: "Çift Tıklama", kind: "interact" };
+  if (call.tool === "interact" && call.args.action === "contextClick") return { text: "Sağ Tıklama", kind: "interact" };
+  if (call.tool === "interact" && call.args.action === "longPress") return { text: "Uzun Basma", kind: "interact" };
+  if (call.tool === "interact" && call.args.action === "press") {
+    const rawKey = typeof call.args.key === "string" ? call.args.key : "";
+    const modifiers = Array.isArray(call.args.modifiers)
+      ? call.args.modifiers.filter((item): item is string => typeof item === "string")
+      : [];
+    const combo = parseKeyCombo(rawKey, modifiers);
+    return { text: combo ? `Tuş: ${formatKeyCombo(combo)}` : "Tuş", kind: "keyboard" };
+  }
   if (call.tool === "interact") return { text: "Etkileşim", kind: "interact" };
   return { text: call.tool || "Araç", kind: "unknown" };
 };
@@ -5,7 +5,7 @@ export interface Message {
   text: string;
   isUser: boolean;
   type?: "message" | "tool";
-  toolKind?: "context" | "cursor" | "scroll" | "navigate" | "form" | "interact" | "unknown";
+  toolKind?: "context" | "cursor" | "scroll" | "navigate" | "form" | "interact" | "keyboard" | "wait" | "unknown";
   toolLabel?: string;
   toolCount?: number;
 }
@@ -0,0 +1,46 @@
+import {
+  startFrameBridgeChild,
+  stopFrameBridgeChild,
+  type FrameBridgeChildOptions,
+} from "./agent/bridge";
+
+export type { FrameBridgeChildOptions };
+
+let isInitialized = false;
+
+/**
+ * Connect this frame to the Bulut widget on the parent page. Load it in
+ * cross-origin frames (checkout, scheduler…) so the agent can read and use
+ * them; the parent must list this frame's origin in `frameOrigins`.
+ * @param options - Parent page origins allowed to drive this frame
+ */
+export const init = (options: FrameBridgeChildOptions) => {
+  if (isInitialized) {
+    console.warn("Bulut frame bridge is already initialized");
+    return;
+  }
+  startFrameBridgeChild(options);
+  isInitialized = true;
+};
+
+/**
+ * Disconnect this frame from the parent widget
+ */
+export const destroy = () => {
+  if (!isInitialized) {
+    return;
+  }
+  stopFrameBridgeChild();
+  isInitialized = false;
+};
+
+const BulutFrameBridge = {
+  init,
+  destroy,
+};
+
+if (typeof window !== "undefined") {
+  (window as Window & { BulutFrameBridge?: typeof BulutFrameBridge }).BulutFrameBridge = BulutFrameBridge;
+}
+
+export default BulutFrameBridge;
@@ -15,8 +15,15 @@ import {
   fetchRemoteConfig,
   resolveRuntimeConfig,
 } from "./widgetConfig";
+import {
+  registerTool,
+  unregisterTool,
+  BUILT_IN_TOOL_NAMES,
+  type CustomToolDefinition,
+} from "./agent/tools";
+import { startFrameBridge, stopFrameBridge } from "./agent/bridge";
 
-export type { BulutVoice, BulutOptions, BulutRuntimeConfig };
+export type { BulutVoice, BulutOptions, BulutRuntimeConfig, CustomToolDefinition };
 
 interface BulutWidgetProps {
   config: BulutRuntimeConfig;
@@ -288,6 +295,9 @@ export const init = (options: BulutOptions = {}) => {
 
   // Render the widget
   render(<BulutWidget config={runtimeConfig} />, mountNode);
+  if (options.frameOrigins?.length) {
+    startFrameBridge({ frameOrigins: options.frameOrigins });
+  }
   isInitialized = true;
 
   console.log("Bulut initialized successfully");
@@ -306,6 +316,8 @@ export const destroy = () => {
     widgetMountNode = null;
   }
 
+  stopFrameBridge();
+
   if (widgetContainer && createdContainer) {
     document.body.removeChild(widgetContainer);
   }
@@ -321,10 +333,14 @@ export const destroy = () => {
  */
 export const isReady = () => isInitialized;
 
+export { registerTool, unregisterTool, BUILT_IN_TOOL_NAMES };
+
 const Bulut = {
   init,
   destroy,
   isReady,
+  registerTool,
+  unregisterTool,
 };
 
 if (typeof window !== "undefined") {
@@ -1,12 +1,22 @@
 'use client';
 
 import { createElement, useEffect, useRef } from 'react';
+import { registerTool, unregisterTool, BUILT_IN_TOOL_NAMES } from './agent/tools/registry';
+import type { CustomToolDefinition } from './agent/tools/types';
+
+export { registerTool, unregisterTool, BUILT_IN_TOOL_NAMES };
+export type { CustomToolDefinition };
 
 export interface BulutProps {
   /** The project ID for your Bulut instance (required). */
   projectId: string;
   /** Backend API URL. Defaults to `"https://api.bulut.lu"`. */
   backendBaseUrl?: string;
+  /**
+   * Origins of cross-origin frames (checkout, scheduler…) that load the
+   * `frame-bridge` script; their content joins the agent's page context.
+   */
+  frameOrigins?: string[];
 }
 
 /**
@@ -27,11 +37,14 @@ export interface BulutProps {
 export function Bulut({
   projectId,
   backendBaseUrl,
+  frameOrigins,
 }: BulutProps) {
   const containerRef = useRef<HTMLDivElement>(null);
   const containerIdRef = useRef(
     `bulut-${Math.random().toString(36).slice(2, 9)}`,
   );
+  // A new array on every render must not re-mount the widget.
+  const frameOriginsKey = (frameOrigins ?? []).join(' ');
 
   useEffect(() => {
     const el = containerRef.current;
@@ -53,6 +66,7 @@ export function Bulut({
         containerId,
         projectId,
         backendBaseUrl,
+        frameOrigins: frameOriginsKey ? frameOriginsKey.split(' ') : undefined,
       });
 
       cleanup = () => mod.destroy();
@@ -62,7 +76,7 @@ export function Bulut({
       destroyed = true;
       cleanup?.();
     };
-  }, [projectId, backendBaseUrl]);
+  }, [projectId, backendBaseUrl, frameOriginsKey]);
 
   // Plain createElement – no JSX – so this file stays free of the
   // Preact JSX transform and keeps real React imports.
@@ -8,6 +8,8 @@ export interface BulutOptions {
   containerId?: string;
   backendBaseUrl?: string;
   projectId?: string;
+  /** Origins of cross-origin frames running the frame bridge script. */
+  frameOrigins?: string[];
 }
 
 export interface BulutRuntimeConfig {
@@ -40,6 +40,7 @@ export default defineConfig({
       entry: {
         index: 'src/react.tsx',
         embed: 'src/index.tsx',
+        'frame-bridge': 'src/frameBridge.ts',
       },
       formats: ['es', 'cjs'],
     },